@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from "vitest";
+import { createAggregateRepository } from "../../core/AggregateRepository.js";
+import { createInMemoryEventStore } from "../../core/InMemoryEventStore.js";
+import { WrongExpectedVersionError } from "../../core/EventBusErrors.js";
+import { INotification } from "../../core/IEventBus.js";
+
+type OrderEvent = INotification<{ amount: number }>;
+type OrderState = { id: string; total: number };
+
+const createEvent = (key: string, amount: number): OrderEvent => ({
+  createdAt: new Date(),
+  token: { key } as any,
+  payload: { amount },
+});
+
+const createRepository = (publish = vi.fn()) => {
+  const eventStore = createInMemoryEventStore();
+  const repository = createAggregateRepository<OrderState, OrderEvent>({
+    eventStore,
+    eventBus: { publish },
+    initialState: (id) => ({ id, total: 0 }),
+    apply: (state, event) => ({
+      ...state,
+      total: state.total + event.payload.amount,
+    }),
+  });
+
+  return { eventStore, repository, publish };
+};
+
+describe("AggregateRepository", () => {
+  it("should rebuild an aggregate from its stream", async () => {
+    const { eventStore, repository } = createRepository();
+
+    expect(await repository.load("order-1")).toEqual({
+      id: "order-1",
+      state: { id: "order-1", total: 0 },
+      version: 0,
+    });
+
+    await eventStore.append("order-1", [
+      createEvent("LineAdded", 10),
+      createEvent("LineAdded", 5),
+    ]);
+
+    expect(await repository.load("order-1")).toEqual({
+      id: "order-1",
+      state: { id: "order-1", total: 15 },
+      version: 2,
+    });
+  });
+
+  it("should append new events then publish them", async () => {
+    const log: string[] = [];
+    const { eventStore, repository } = createRepository(
+      vi.fn(async (event: OrderEvent) => {
+        log.push(`publish ${event.payload.amount}`);
+        // Events are published once the append commits
+        log.push(`stored ${(await eventStore.readStream("order-1")).length}`);
+      })
+    );
+
+    const first = createEvent("LineAdded", 10);
+    const second = createEvent("LineAdded", 5);
+    const aggregate = await repository.execute("order-1", (state) => {
+      expect(state.total).toBe(0);
+      return [first, second];
+    });
+
+    expect(aggregate).toEqual({
+      id: "order-1",
+      state: { id: "order-1", total: 15 },
+      version: 2,
+    });
+    expect(log).toEqual(["publish 10", "stored 2", "publish 5", "stored 2"]);
+  });
+
+  it("should not publish events when the stream changed since loading", async () => {
+    const { eventStore, repository, publish } = createRepository();
+    const aggregate = await repository.load("order-1");
+
+    await eventStore.append("order-1", [createEvent("LineAdded", 1)]);
+
+    await expect(
+      repository.save(aggregate, [createEvent("LineAdded", 10)])
+    ).rejects.toBeInstanceOf(WrongExpectedVersionError);
+    expect(publish).not.toHaveBeenCalled();
+    expect(await eventStore.readStream("order-1")).toHaveLength(1);
+  });
+
+  it("should publish with the configured strategy", async () => {
+    const publish = vi.fn();
+    const repository = createAggregateRepository<OrderState, OrderEvent>({
+      eventStore: createInMemoryEventStore(),
+      eventBus: { publish },
+      strategy: "sequential",
+      initialState: (id) => ({ id, total: 0 }),
+      apply: (state) => state,
+    });
+    const event = createEvent("LineAdded", 1);
+
+    await repository.execute("order-1", () => [event]);
+
+    expect(publish).toHaveBeenCalledWith(event, "sequential");
+  });
+
+  it("should publish every appended event and report the failing ones", async () => {
+    const publishError = new Error("Handler failed");
+    const publish = vi
+      .fn()
+      .mockRejectedValueOnce(publishError)
+      .mockResolvedValue(undefined);
+    const onPublishError = vi.fn();
+    const eventStore = createInMemoryEventStore();
+    const repository = createAggregateRepository<OrderState, OrderEvent>({
+      eventStore,
+      eventBus: { publish },
+      strategy: "parallel",
+      onPublishError,
+      initialState: (id) => ({ id, total: 0 }),
+      apply: (state, event) => ({
+        ...state,
+        total: state.total + event.payload.amount,
+      }),
+    });
+    const first = createEvent("LineAdded", 10);
+    const second = createEvent("LineAdded", 5);
+
+    const saved = await repository.execute("order-1", () => [first, second]);
+
+    expect(saved).toMatchObject({ state: { total: 15 }, version: 2 });
+    expect(publish).toHaveBeenCalledTimes(2);
+    expect(onPublishError).toHaveBeenCalledWith(publishError, first);
+    expect(await eventStore.readStream("order-1")).toHaveLength(2);
+  });
+});
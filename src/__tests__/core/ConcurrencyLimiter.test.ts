@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { createConcurrencyLimiter } from "../../core/ConcurrencyLimiter.js";
+
+const createDeferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+};
+
+describe("ConcurrencyLimiter", () => {
+  it("should run at most limit tasks at once, in call order", async () => {
+    const limiter = createConcurrencyLimiter(2);
+    const started: number[] = [];
+    const deferreds = [0, 1, 2, 3].map(createDeferred);
+
+    const runs = deferreds.map((deferred, index) =>
+      limiter.run(async () => {
+        started.push(index);
+        await deferred.promise;
+        return index;
+      })
+    );
+
+    await Promise.resolve();
+    expect(started).toEqual([0, 1]);
+
+    deferreds[1].resolve();
+    await runs[1];
+    await Promise.resolve();
+    expect(started).toEqual([0, 1, 2]);
+
+    deferreds.forEach((deferred) => deferred.resolve());
+    expect(await Promise.all(runs)).toEqual([0, 1, 2, 3]);
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  it("should release the slot of a failed task", async () => {
+    const limiter = createConcurrencyLimiter(1);
+
+    await expect(
+      limiter.run(async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    expect(await limiter.run(async () => "next")).toBe("next");
+  });
+
+  it("should start tasks immediately without a limit", async () => {
+    const limiter = createConcurrencyLimiter();
+    let started = 0;
+
+    const runs = [1, 2, 3].map(() =>
+      limiter.run(async () => {
+        started++;
+      })
+    );
+
+    expect(started).toBe(3);
+    await Promise.all(runs);
+  });
+
+  it("should reject limits lower than 1", () => {
+    expect(() => createConcurrencyLimiter(0)).toThrow(
+      "Concurrency limit must be at least 1, got 0"
+    );
+  });
+});
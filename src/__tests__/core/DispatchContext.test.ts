@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  createDispatchContext,
+  toMessageMetadata,
+} from "../../core/DispatchContext.js";
+import { INotification } from "../../core/IEventBus.js";
+
+const createNotification = (
+  metadata?: INotification<unknown>["metadata"]
+): INotification<unknown> => ({
+  createdAt: new Date(),
+  token: { key: "OrderPlaced" } as any,
+  payload: {},
+  metadata,
+});
+
+describe("DispatchContext", () => {
+  it("should start a new causal chain when there is no parent", () => {
+    const context = createDispatchContext(
+      createNotification({ messageId: "message-1", userId: "user-1" })
+    );
+
+    expect(context).toEqual({
+      messageId: "message-1",
+      correlationId: "message-1",
+      causationId: undefined,
+      userId: "user-1",
+      tenantId: undefined,
+      items: {},
+    });
+  });
+
+  it("should generate a message id when the message has none", () => {
+    const context = createDispatchContext(createNotification());
+
+    expect(context.messageId).toEqual(expect.any(String));
+    expect(context.correlationId).toBe(context.messageId);
+  });
+
+  it("should inherit the parent context and be caused by the parent message", () => {
+    const parent = createDispatchContext(
+      createNotification({
+        messageId: "message-1",
+        correlationId: "correlation-1",
+        userId: "user-1",
+        tenantId: "tenant-1",
+        items: { locale: "en", source: "api" },
+      })
+    );
+
+    const context = createDispatchContext(
+      createNotification({ messageId: "message-2", items: { source: "job" } }),
+      parent
+    );
+
+    expect(context).toEqual({
+      messageId: "message-2",
+      correlationId: "correlation-1",
+      causationId: "message-1",
+      userId: "user-1",
+      tenantId: "tenant-1",
+      items: { locale: "en", source: "job" },
+    });
+  });
+
+  it("should convert a context back into message metadata", () => {
+    const context = createDispatchContext(
+      createNotification({ messageId: "message-1", tenantId: "tenant-1" })
+    );
+
+    expect(toMessageMetadata(context)).toEqual({
+      messageId: "message-1",
+      correlationId: "message-1",
+      causationId: undefined,
+      userId: undefined,
+      tenantId: "tenant-1",
+      items: {},
+    });
+  });
+});
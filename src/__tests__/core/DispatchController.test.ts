@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { createDispatchController } from "../../core/DispatchController.js";
+import { HandlerTimeoutError } from "../../core/EventBusErrors.js";
+
+describe("DispatchController", () => {
+  it("should resolve with the result of the dispatch", async () => {
+    const dispatch = createDispatchController("TestCommand");
+
+    await expect(dispatch.run(async () => "result")).resolves.toBe("result");
+    expect(dispatch.signal.aborted).toBe(false);
+  });
+
+  it("should reject with a HandlerTimeoutError once the timeout elapses", async () => {
+    const dispatch = createDispatchController("TestCommand", { timeout: 5 });
+
+    const error = await dispatch
+      .run(() => new Promise((resolve) => setTimeout(resolve, 50)))
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(HandlerTimeoutError);
+    expect(error.message).toBe("Handler for TestCommand timed out after 5ms");
+    expect(dispatch.signal.reason).toBe(error);
+  });
+
+  it("should reject with the reason of the caller's signal", async () => {
+    const controller = new AbortController();
+    const reason = new Error("Cancelled");
+    const dispatch = createDispatchController("TestCommand", {
+      signal: controller.signal,
+    });
+
+    const run = dispatch.run(
+      () => new Promise((resolve) => setTimeout(resolve, 50))
+    );
+    controller.abort(reason);
+
+    await expect(run).rejects.toBe(reason);
+    expect(dispatch.signal.aborted).toBe(true);
+  });
+
+  it("should not start the dispatch when the caller's signal is already aborted", async () => {
+    let started = false;
+    const dispatch = createDispatchController("TestCommand", {
+      signal: AbortSignal.abort(new Error("Cancelled")),
+    });
+
+    await expect(
+      dispatch.run(async () => {
+        started = true;
+      })
+    ).rejects.toThrow("Cancelled");
+    expect(started).toBe(false);
+  });
+});
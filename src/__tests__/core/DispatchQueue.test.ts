@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from "vitest";
+import { createDispatchQueue } from "../../core/DispatchQueue.js";
+import { QueueFullError } from "../../core/EventBusErrors.js";
+
+const createDeferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+};
+
+describe("DispatchQueue", () => {
+  it("should process items in order in the background", async () => {
+    const processed: number[] = [];
+    const queue = createDispatchQueue<number>(async (item) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      processed.push(item);
+    });
+
+    await queue.enqueue(1);
+    await queue.enqueue(2);
+    expect(processed).toEqual([]);
+
+    await queue.drain();
+    expect(processed).toEqual([1, 2]);
+  });
+
+  it("should process at most concurrency items at once", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const queue = createDispatchQueue<number>(
+      async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+      },
+      { concurrency: 2 }
+    );
+
+    await Promise.all([1, 2, 3, 4, 5].map((item) => queue.enqueue(item)));
+    await queue.drain();
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it("should reject items when full by default", async () => {
+    const deferred = createDeferred();
+    const queue = createDispatchQueue<number>(() => deferred.promise, {
+      maxSize: 1,
+    });
+
+    await queue.enqueue(1); // processing
+    await queue.enqueue(2); // waiting
+
+    await expect(queue.enqueue(3)).rejects.toThrow(QueueFullError);
+    await expect(queue.enqueue(3)).rejects.toThrow(
+      "Dispatch queue is full (max size 1)"
+    );
+
+    deferred.resolve();
+    await queue.drain();
+  });
+
+  it("should block producers until there is room when configured to", async () => {
+    const deferred = createDeferred();
+    const processed: number[] = [];
+    const queue = createDispatchQueue<number>(
+      async (item) => {
+        await deferred.promise;
+        processed.push(item);
+      },
+      { maxSize: 1, overflow: "block" }
+    );
+
+    await queue.enqueue(1);
+    await queue.enqueue(2);
+
+    let queued = false;
+    const blocked = queue.enqueue(3).then(() => (queued = true));
+    await Promise.resolve();
+    expect(queued).toBe(false);
+
+    deferred.resolve();
+    await blocked;
+    await queue.drain();
+
+    expect(processed).toEqual([1, 2, 3]);
+  });
+
+  it("should report processing errors and keep going", async () => {
+    const onError = vi.fn();
+    const processed: number[] = [];
+    const queue = createDispatchQueue<number>(
+      async (item) => {
+        if (item === 1) {
+          throw new Error("boom");
+        }
+        processed.push(item);
+      },
+      {},
+      onError
+    );
+
+    await queue.enqueue(1);
+    await queue.enqueue(2);
+    await queue.drain();
+
+    expect(onError).toHaveBeenCalledWith(new Error("boom"), 1);
+    expect(processed).toEqual([2]);
+  });
+
+  it("should process queued items then reject new ones on shutdown", async () => {
+    const processed: number[] = [];
+    const queue = createDispatchQueue<number>(async (item) => {
+      processed.push(item);
+    });
+
+    await queue.enqueue(1);
+    await queue.shutdown();
+
+    expect(processed).toEqual([1]);
+    await expect(queue.enqueue(2)).rejects.toThrow(
+      "Dispatch queue is shut down"
+    );
+  });
+
+  it("should reject blocked producers on shutdown", async () => {
+    const deferred = createDeferred();
+    const queue = createDispatchQueue<number>(() => deferred.promise, {
+      maxSize: 1,
+      overflow: "block",
+    });
+
+    await queue.enqueue(1);
+    await queue.enqueue(2);
+    const blocked = queue.enqueue(3);
+
+    const shutdown = queue.shutdown();
+    await expect(blocked).rejects.toThrow("Dispatch queue is shut down");
+
+    deferred.resolve();
+    await shutdown;
+  });
+});
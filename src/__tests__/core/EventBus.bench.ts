@@ -0,0 +1,58 @@
+import { bench, describe } from "vitest";
+import { buildDIContainer, createDIToken } from "@fioc/core";
+import {
+  EventBusFactory,
+  createMiddlewareDIToken,
+  createQueryDIToken,
+  createQueryHandlerDIToken,
+} from "../../core/EventBus.js";
+import {
+  IEventBusToken,
+  IQuery,
+  IQueryHandler,
+  IQueryToken,
+  MiddleWareOrderToken,
+} from "../../core/IEventBus.js";
+
+type GetUser = IQuery<{ id: string }, string>;
+
+// A query implementing a chain of base queries, each with its own middleware
+const BaseQueryTokens = Array.from({ length: 4 }, (_, index) =>
+  createDIToken().as(`BaseQuery${index}`, { implements: [IQueryToken] })
+);
+
+const GetUserToken = createQueryDIToken<GetUser>().as("GetUser", {
+  implements: [IQueryToken, ...BaseQueryTokens],
+});
+
+const GetUserHandlerToken = createQueryHandlerDIToken<
+  IQueryHandler<GetUser>
+>().as("GetUserHandler", { generics: [GetUserToken] });
+
+const MiddlewareTokens = [IQueryToken, ...BaseQueryTokens, GetUserToken].map(
+  (genericToken, index) =>
+    createMiddlewareDIToken<GetUser, string>().as(`Middleware${index}`, {
+      generics: [genericToken],
+    })
+);
+
+const eventBus = MiddlewareTokens.reduce(
+  (builder, token) =>
+    builder.register(token, {
+      handle: async (query, next) => next(query),
+    }),
+  buildDIContainer()
+    .register(MiddleWareOrderToken, MiddlewareTokens)
+    .registerFactory(IEventBusToken, EventBusFactory)
+    .register(GetUserHandlerToken, {
+      handle: async (query) => query.payload.id,
+    })
+)
+  .getResult()
+  .resolve(IEventBusToken);
+
+describe("EventBus", () => {
+  bench("invoke a query through a pipeline of six middlewares", async () => {
+    await eventBus.invoke(GetUserToken.create({ id: "42" }));
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expectTypeOf } from "vitest";
+import {
+  createCommandDIToken,
+  createCommandHandlerDIToken,
+  createNotificationDIToken,
+  createNotificationHandlerDIToken,
+  createQueryDIToken,
+} from "../../core/EventBus.js";
+import {
+  ICommand,
+  ICommandHandler,
+  IEventBus,
+  INotification,
+  INotificationHandler,
+  IQuery,
+  PublishResult,
+  TypedEventBus,
+} from "../../core/IEventBus.js";
+
+type OrderPlaced = INotification<{ orderId: string }>;
+type UserRegistered = INotification<{ userId: number }>;
+type PlaceOrder = ICommand<{ sku: string }, string>;
+type CountOrders = IQuery<{ status: string }, number>;
+
+const OrderPlacedToken =
+  createNotificationDIToken<OrderPlaced>().as("OrderPlaced");
+const UserRegisteredToken =
+  createNotificationDIToken<UserRegistered>().as("UserRegistered");
+const PlaceOrderToken = createCommandDIToken<PlaceOrder>().as("PlaceOrder");
+const CountOrdersToken = createQueryDIToken<CountOrders>().as("CountOrders");
+
+declare const eventBus: IEventBus;
+declare const typedEventBus: TypedEventBus<PlaceOrder, OrderPlaced>;
+
+describe("EventBus types", () => {
+  it("should reject handler tokens whose generics carry another payload", () => {
+    createNotificationHandlerDIToken<INotificationHandler<OrderPlaced>>().as(
+      "OrderPlacedHandler",
+      { generics: [OrderPlacedToken] }
+    );
+
+    createNotificationHandlerDIToken<INotificationHandler<OrderPlaced>>().as(
+      "OrderPlacedHandler",
+      // @ts-expect-error The token carries the payload of another notification
+      { generics: [UserRegisteredToken] }
+    );
+  });
+
+  it("should reject handlers resolving to another result than their request", () => {
+    createCommandHandlerDIToken<ICommandHandler<PlaceOrder>>().as(
+      "PlaceOrderHandler",
+      { generics: [PlaceOrderToken] }
+    );
+
+    createCommandHandlerDIToken<
+      ICommandHandler<ICommand<{ sku: string }, number>>
+    >().as(
+      "PlaceOrderHandler",
+      // @ts-expect-error The command resolves to a string, not a number
+      { generics: [PlaceOrderToken] }
+    );
+
+    const handler: ICommandHandler<PlaceOrder> = {
+      // @ts-expect-error The command resolves to a string
+      handle: async () => 42,
+    };
+    expectTypeOf(handler.handle).returns.resolves.toEqualTypeOf<string>();
+  });
+
+  it("should infer the result of an invoke from its request", () => {
+    expectTypeOf(
+      eventBus.invoke(PlaceOrderToken.create({ sku: "book" }))
+    ).resolves.toEqualTypeOf<string>();
+    expectTypeOf(
+      eventBus.invoke(CountOrdersToken.create({ status: "paid" }))
+    ).resolves.toEqualTypeOf<number>();
+
+    // @ts-expect-error The payload does not match the command
+    PlaceOrderToken.create({ sku: 42 });
+  });
+
+  it("should infer the result of a publish from its strategy and options", () => {
+    expectTypeOf(
+      eventBus.publish(OrderPlacedToken.create({ orderId: "1" }))
+    ).resolves.toEqualTypeOf<PublishResult>();
+    expectTypeOf(
+      eventBus.publish(OrderPlacedToken.create({ orderId: "1" }), "parallel")
+    ).resolves.toEqualTypeOf<void>();
+  });
+
+  it("should reject messages outside of the typed event bus unions", () => {
+    expectTypeOf(
+      typedEventBus.invoke(PlaceOrderToken.create({ sku: "book" }))
+    ).resolves.toEqualTypeOf<string>();
+    typedEventBus.publish(OrderPlacedToken.create({ orderId: "1" }));
+
+    // @ts-expect-error The query is not handled by the application
+    typedEventBus.invoke(CountOrdersToken.create({ status: "paid" }));
+    // @ts-expect-error The notification is not handled by the application
+    typedEventBus.publish(UserRegisteredToken.create({ userId: 1 }));
+    // @ts-expect-error The notification is not handled by the application
+    typedEventBus.subscribe(UserRegisteredToken, async () => {});
+  });
+});
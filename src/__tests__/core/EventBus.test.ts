@@ -1,7 +1,9 @@
 import { describe, it, expect, vi } from "vitest";
+import { AsyncLocalStorage } from "node:async_hooks";
 import { buildDIContainer, createDIToken } from "@fioc/core";
 import {
   EventBusFactory,
+  createEventBusFactory,
   createNotificationDIToken,
   createCommandDIToken,
   createNotificationHandlerDIToken,
@@ -9,6 +11,7 @@ import {
   createQueryDIToken,
   createQueryHandlerDIToken,
   createMiddlewareDIToken,
+  createNotificationHandlerMiddlewareDIToken,
 } from "../../core/EventBus.js";
 import {
   INotificationHandlerToken,
@@ -24,7 +27,21 @@ import {
   IQueryToken,
   INotificationHandler,
   ICommandHandler,
+  HandlerContext,
+  DispatchContext,
+  EventBusOptions,
 } from "../../core/IEventBus.js";
+import {
+  EventBusValidationError,
+  HandlerTimeoutError,
+  PublishError,
+  QueueFullError,
+  ValidationError,
+} from "../../core/EventBusErrors.js";
+import { createInMemoryDeadLetterStore } from "../../core/InMemoryDeadLetterStore.js";
+import { createInMemoryTransportPair } from "../../core/InMemoryTransport.js";
+import { IOutboxStore } from "../../core/IOutboxStore.js";
+import { setMessageClock } from "../../core/Clock.js";
 
 // Test notification payload type
 type TestNotificationPayload = {
@@ -110,7 +127,10 @@ describe("EventBus", () => {
 
       await eventBus.publish(notification);
 
-      expect(handlerSpy).toHaveBeenCalledWith(notification);
+      expect(handlerSpy).toHaveBeenCalledWith(
+        notification,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
     });
 
     it("should publish to multiple handlers in parallel by default", async () => {
@@ -156,8 +176,14 @@ describe("EventBus", () => {
 
       // Should take approximately the time of the slowest handler (50ms)
       expect(duration).toBeLessThan(70); // Add some buffer
-      expect(handler1Spy).toHaveBeenCalledWith(notification);
-      expect(handler2Spy).toHaveBeenCalledWith(notification);
+      expect(handler1Spy).toHaveBeenCalledWith(
+        notification,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+      expect(handler2Spy).toHaveBeenCalledWith(
+        notification,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
     });
 
     it("should execute handlers sequentially when strategy is sequential", async () => {
@@ -248,52 +274,2069 @@ describe("EventBus", () => {
       };
 
       // Should not throw
-      const errors = await eventBus.publish(notification, "besteffort");
+      const result = await eventBus.publish(notification, "besteffort");
 
       expect(handler1Spy).toHaveBeenCalled();
       expect(handler2Spy).toHaveBeenCalled();
-      expect(errors).toHaveLength(1);
-      expect(errors[0]).toBeInstanceOf(Error);
-      expect(errors[0].message).toBe("Handler 1 failed");
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toBeInstanceOf(Error);
+      expect(result.errors[0].message).toBe("Handler 1 failed");
+    });
+
+    it("should report the outcome of each handler in besteffort strategy", async () => {
+      const handlerError = new Error("Handler 1 failed");
+
+      const Handler1Token = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("Handler1", {
+        generics: [TestNotificationToken],
+      });
+
+      const Handler2Token = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("Handler2", {
+        generics: [TestNotificationToken],
+      });
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(Handler1Token, {
+          handle: vi.fn().mockRejectedValue(handlerError),
+        })
+        .register(Handler2Token, {
+          handle: vi.fn().mockResolvedValue(undefined),
+        })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const notification: INotification<TestNotificationPayload> = {
+        createdAt: new Date(),
+        token: TestNotificationToken,
+        payload: { message: "test" },
+      };
+
+      const result = await eventBus.publish(notification, "besteffort");
+
+      expect(result.notificationKey).toBe("TestNotification");
+      expect(result.results).toEqual([
+        {
+          handlerKey: "Handler1",
+          status: "rejected",
+          error: handlerError,
+          attempts: 1,
+          duration: expect.any(Number),
+        },
+        {
+          handlerKey: "Handler2",
+          status: "fulfilled",
+          attempts: 1,
+          duration: expect.any(Number),
+        },
+      ]);
+      expect(new PublishError(result).message).toBe(
+        "Notification TestNotification failed in handlers: Handler1"
+      );
+    });
+
+    it("should reject with a PublishError when collecting results in parallel strategy", async () => {
+      const Handler1Token = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("Handler1", {
+        generics: [TestNotificationToken],
+      });
+
+      const Handler2Token = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("Handler2", {
+        generics: [TestNotificationToken],
+      });
+
+      const handler2Spy = vi.fn().mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      });
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(Handler1Token, {
+          handle: vi.fn().mockRejectedValue(new Error("Handler 1 failed")),
+        })
+        .register(Handler2Token, { handle: handler2Spy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const notification: INotification<TestNotificationPayload> = {
+        createdAt: new Date(),
+        token: TestNotificationToken,
+        payload: { message: "test" },
+      };
+
+      const error = await eventBus
+        .publish(notification, "parallel", { collectResult: true })
+        .catch((error) => error);
+
+      expect(error).toBeInstanceOf(PublishError);
+      expect(error.errors.map((e: Error) => e.message)).toEqual([
+        "Handler 1 failed",
+      ]);
+      expect(
+        error.result.results.map((r: { status: string }) => r.status)
+      ).toEqual(["rejected", "fulfilled"]);
+    });
+
+    it("should return a publish result and mark skipped handlers in sequential strategy", async () => {
+      const Handler1Token = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("Handler1", {
+        generics: [TestNotificationToken],
+      });
+
+      const Handler2Token = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("Handler2", {
+        generics: [TestNotificationToken],
+      });
+
+      const handler1Spy = vi.fn().mockResolvedValue(undefined);
+      const handler2Spy = vi.fn().mockResolvedValue(undefined);
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(Handler1Token, { handle: handler1Spy })
+        .register(Handler2Token, { handle: handler2Spy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const notification: INotification<TestNotificationPayload> = {
+        createdAt: new Date(),
+        token: TestNotificationToken,
+        payload: { message: "test" },
+      };
+
+      const result = await eventBus.publish(notification, "sequential", {
+        collectResult: true,
+      });
+      expect(result.results.map((r) => r.status)).toEqual([
+        "fulfilled",
+        "fulfilled",
+      ]);
+
+      handler1Spy.mockRejectedValueOnce(new Error("Handler 1 failed"));
+
+      const error = await eventBus
+        .publish(notification, "sequential", { collectResult: true })
+        .catch((error) => error);
+
+      expect(error).toBeInstanceOf(PublishError);
+      expect(error.result.results).toEqual([
+        {
+          handlerKey: "Handler1",
+          status: "rejected",
+          error: expect.any(Error),
+          attempts: 1,
+          duration: expect.any(Number),
+        },
+        {
+          handlerKey: "Handler2",
+          status: "skipped",
+          attempts: 0,
+          duration: 0,
+        },
+      ]);
+      expect(handler2Spy).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop execution on first error in sequential strategy", async () => {
+      const handler1Spy = vi
+        .fn()
+        .mockRejectedValue(new Error("Handler 1 failed"));
+      const handler2Spy = vi.fn().mockResolvedValue(undefined);
+
+      const Handler1Token = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("Handler1", {
+        generics: [TestNotificationToken],
+      });
+
+      const Handler2Token = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("Handler2", {
+        generics: [TestNotificationToken],
+      });
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(Handler1Token, { handle: handler1Spy })
+        .register(Handler2Token, { handle: handler2Spy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const notification: INotification<TestNotificationPayload> = {
+        createdAt: new Date(),
+        token: TestNotificationToken,
+        payload: { message: "test" },
+      };
+
+      await expect(
+        eventBus.publish(notification, "sequential")
+      ).rejects.toThrow("Handler 1 failed");
+      expect(handler1Spy).toHaveBeenCalled();
+      expect(handler2Spy).not.toHaveBeenCalled();
+    });
+
+    it("should run sequential handlers according to their ordering constraints", async () => {
+      const log: string[] = [];
+
+      const PersistenceHandlerToken = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("PersistenceHandler", {
+        generics: [TestNotificationToken],
+      });
+
+      const AuditHandlerToken = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("AuditHandler", {
+        generics: [TestNotificationToken],
+        priority: 10,
+        after: [PersistenceHandlerToken],
+      });
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(AuditHandlerToken, { handle: async () => log.push("audit") })
+        .register(PersistenceHandlerToken, {
+          handle: async () => log.push("persistence"),
+        })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      await eventBus.publish(
+        {
+          createdAt: new Date(),
+          token: TestNotificationToken,
+          payload: { message: "test" },
+        },
+        "sequential"
+      );
+
+      expect(log).toEqual(["persistence", "audit"]);
+    });
+
+    it("should throw when handler ordering constraints form a cycle", () => {
+      const Handler1Token = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("Handler1", {
+        generics: [TestNotificationToken],
+      });
+
+      const Handler2Token = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("Handler2", {
+        generics: [TestNotificationToken],
+        before: [Handler1Token],
+        after: [Handler1Token],
+      });
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(Handler1Token, { handle: vi.fn() })
+        .register(Handler2Token, { handle: vi.fn() })
+        .getResult();
+
+      expect(() => container.resolve(IEventBusToken)).toThrow(
+        "Notification handlers of TestNotification have cyclic ordering constraints: Handler1, Handler2"
+      );
+    });
+  });
+
+  describe("Notification Matching", () => {
+    const OrderEventToken =
+      createNotificationDIToken<INotification<{ orderId: string }>>().as(
+        "OrderEvent"
+      );
+
+    const OrderPlacedToken = createNotificationDIToken<
+      INotification<{ orderId: string }>
+    >().as("order.placed", { implements: [OrderEventToken] });
+
+    const OrderLineAddedToken =
+      createNotificationDIToken<INotification<{ orderId: string }>>().as(
+        "order.line.added"
+      );
+
+    const OrderPatternToken =
+      createDIToken<INotification<{ orderId: string }>>().as("order.*");
+
+    const createHandlerToken = (key: string, generic: any) =>
+      createNotificationHandlerDIToken<
+        INotificationHandler<INotification<{ orderId: string }>>
+      >().as(key, { generics: [generic] });
+
+    it("should call the handlers of the tokens a notification implements", async () => {
+      const log: string[] = [];
+      const record = (name: string) => ({
+        handle: async (notification: INotification<any>) => {
+          log.push(`${name} ${notification.token.key}`);
+        },
+      });
+
+      const eventBus = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(
+          createHandlerToken("OrderPlacedHandler", OrderPlacedToken),
+          record("placed")
+        )
+        .register(
+          createHandlerToken("OrderEventHandler", OrderEventToken),
+          record("order")
+        )
+        .register(
+          createHandlerToken("AuditHandler", INotificationToken),
+          record("audit")
+        )
+        .getResult()
+        .resolve(IEventBusToken);
+
+      await eventBus.publish(
+        OrderPlacedToken.create({ orderId: "1" }),
+        "sequential"
+      );
+      await eventBus.publish(
+        TestNotificationToken.create({ message: "hello" }),
+        "sequential"
+      );
+
+      expect(log).toEqual([
+        "placed order.placed",
+        "audit order.placed",
+        "order order.placed",
+        "audit TestNotification",
+      ]);
+    });
+
+    it("should call the handlers of the patterns matching a notification key", async () => {
+      const patternSpy = vi.fn();
+
+      const eventBus = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(
+          createHandlerToken("OrderPatternHandler", OrderPatternToken),
+          {
+            handle: patternSpy,
+          }
+        )
+        .getResult()
+        .resolve(IEventBusToken);
+
+      const unsubscribe = eventBus.subscribe(
+        createDIToken<INotification<any>>().as("order.**"),
+        patternSpy
+      );
+
+      await eventBus.publish(OrderPlacedToken.create({ orderId: "1" }));
+      await eventBus.publish(OrderLineAddedToken.create({ orderId: "1" }));
+      unsubscribe();
+      await eventBus.publish(OrderLineAddedToken.create({ orderId: "2" }));
+
+      expect(
+        patternSpy.mock.calls.map(([notification]) => notification.token.key)
+      ).toEqual(["order.placed", "order.placed", "order.line.added"]);
+    });
+
+    it("should throw when creating the event bus if handlers of related tokens form an ordering cycle", () => {
+      const OrderEventHandlerToken = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<{ orderId: string }>>
+      >().as("OrderEventHandler", { generics: [OrderEventToken] });
+
+      const OrderPlacedHandlerToken = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<{ orderId: string }>>
+      >().as("OrderPlacedHandler", {
+        generics: [OrderPlacedToken],
+        before: [OrderEventHandlerToken],
+        after: [OrderEventHandlerToken],
+      });
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(OrderEventHandlerToken, { handle: vi.fn() })
+        .register(OrderPlacedHandlerToken, { handle: vi.fn() })
+        .getResult();
+
+      expect(() => container.resolve(IEventBusToken)).toThrow(
+        "Notification handlers of order.placed have cyclic ordering constraints"
+      );
+    });
+
+    it("should reject a subscription forming an ordering cycle with the handlers of related tokens", async () => {
+      const OrderPlacedHandlerToken = createHandlerToken(
+        "OrderPlacedHandler",
+        OrderPlacedToken
+      );
+      const handlerSpy = vi.fn();
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(OrderPlacedHandlerToken, { handle: handlerSpy })
+        .getResult();
+      const eventBus = container.resolve(IEventBusToken);
+
+      const CyclicHandlerToken = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<{ orderId: string }>>
+      >().as("CyclicHandler", {
+        before: [OrderPlacedHandlerToken],
+        after: [OrderPlacedHandlerToken],
+      });
+
+      expect(() =>
+        eventBus.subscribe(OrderEventToken, CyclicHandlerToken)
+      ).toThrow(
+        "Notification handlers of order.placed have cyclic ordering constraints"
+      );
+
+      await eventBus.publish(OrderPlacedToken.create({ orderId: "1" }));
+      expect(handlerSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Subscriptions", () => {
+    const createEventBus = () =>
+      buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .getResult()
+        .resolve(IEventBusToken);
+
+    it("should call a subscribed function until it is unsubscribed", async () => {
+      const eventBus = createEventBus();
+      const subscriber = vi.fn();
+
+      const unsubscribe = eventBus.subscribe(TestNotificationToken, subscriber);
+      const notification = TestNotificationToken.create({ message: "first" });
+      await eventBus.publish(notification);
+
+      unsubscribe();
+      unsubscribe();
+      await eventBus.publish(
+        TestNotificationToken.create({ message: "second" })
+      );
+
+      expect(subscriber).toHaveBeenCalledTimes(1);
+      expect(subscriber).toHaveBeenCalledWith(
+        notification,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+    });
+
+    it("should run subscribed handlers alongside registered ones under every strategy", async () => {
+      const log: string[] = [];
+
+      const HandlerMiddlewareToken = createNotificationHandlerMiddlewareDIToken<
+        INotification<TestNotificationPayload>
+      >().as("HandlerMiddleware", { generics: [TestNotificationToken] });
+
+      const eventBus = buildDIContainer()
+        .register(MiddleWareOrderToken, [HandlerMiddlewareToken])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(HandlerMiddlewareToken, {
+          handle: async (notification, handler, next) => {
+            log.push(`wrap ${handler.key}`);
+            return next(notification);
+          },
+        })
+        .register(TestNotificationHandlerToken, {
+          handle: async () => {
+            log.push("registered");
+          },
+        })
+        .getResult()
+        .resolve(IEventBusToken);
+
+      eventBus.subscribe(TestNotificationToken, {
+        handle: async () => {
+          log.push("subscribed");
+        },
+      });
+
+      const result = await eventBus.publish(
+        TestNotificationToken.create({ message: "hello" }),
+        "sequential",
+        { collectResult: true }
+      );
+
+      expect(result.results.map(({ handlerKey }) => handlerKey)).toEqual([
+        "TestNotificationHandler",
+        "Subscription(TestNotification)#1",
+      ]);
+      expect(log).toEqual([
+        "wrap TestNotificationHandler",
+        "registered",
+        "wrap Subscription(TestNotification)#1",
+        "subscribed",
+      ]);
+    });
+
+    it("should resolve subscribed handler tokens and order them by their metadata", async () => {
+      const log: string[] = [];
+
+      const UrgentHandlerToken = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("UrgentHandler", {
+        generics: [TestNotificationToken],
+        priority: 10,
+      });
+
+      // The plugin handler is only known to the scope, not to the root container
+      const pluginContainer = buildDIContainer()
+        .register(TestNotificationHandlerToken, {
+          handle: async () => {
+            log.push("registered");
+          },
+        })
+        .register(UrgentHandlerToken, {
+          handle: async () => {
+            log.push("urgent");
+          },
+        })
+        .getResult();
+
+      const eventBus = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({
+            scope: () => ({ container: pluginContainer }),
+          })
+        )
+        .register(TestNotificationHandlerToken, { handle: async () => {} })
+        .getResult()
+        .resolve(IEventBusToken);
+
+      eventBus.subscribe(TestNotificationToken, (notification) => {
+        log.push(`function ${notification.payload.message}`);
+      });
+      eventBus.subscribe(TestNotificationToken, UrgentHandlerToken);
+
+      await eventBus.publish(
+        TestNotificationToken.create({ message: "hello" }),
+        "sequential"
+      );
+
+      expect(log).toEqual(["urgent", "registered", "function hello"]);
+      expect(
+        eventBus
+          .describe()
+          .messages.find(({ key }) => key === "TestNotification")?.handlers
+      ).toEqual([
+        "UrgentHandler",
+        "TestNotificationHandler",
+        "Subscription(TestNotification)#1",
+      ]);
+    });
+  });
+
+  describe("Retries", () => {
+    it("should retry a failing handler using the policy declared on its token", async () => {
+      const handlerSpy = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Deadlock"))
+        .mockRejectedValueOnce(new Error("Deadlock"))
+        .mockResolvedValue(undefined);
+
+      const RetryingHandlerToken = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("RetryingHandler", {
+        generics: [TestNotificationToken],
+        retryPolicy: { maxAttempts: 3 },
+      });
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(RetryingHandlerToken, { handle: handlerSpy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const notification: INotification<TestNotificationPayload> = {
+        createdAt: new Date(),
+        token: TestNotificationToken,
+        payload: { message: "test" },
+      };
+
+      await eventBus.publish(notification, "sequential");
+
+      expect(handlerSpy).toHaveBeenCalledTimes(3);
+    });
+
+    it("should apply the event bus retry policy and stop when the error is not retryable", async () => {
+      const handlerSpy = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Deadlock"))
+        .mockRejectedValue(new Error("Constraint violation"));
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({
+            retryPolicy: {
+              maxAttempts: 5,
+              retryIf: (error) => error.message === "Deadlock",
+            },
+          })
+        )
+        .register(TestNotificationHandlerToken, { handle: handlerSpy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const notification: INotification<TestNotificationPayload> = {
+        createdAt: new Date(),
+        token: TestNotificationToken,
+        payload: { message: "test" },
+      };
+
+      const result = await eventBus.publish(notification, "besteffort");
+
+      expect(handlerSpy).toHaveBeenCalledTimes(2);
+      expect(result.results[0]).toMatchObject({
+        status: "rejected",
+        attempts: 2,
+        error: new Error("Constraint violation"),
+      });
+    });
+
+    it("should rethrow the last error once attempts are exhausted in parallel strategy", async () => {
+      const handlerSpy = vi.fn().mockRejectedValue(new Error("Deadlock"));
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({ retryPolicy: { maxAttempts: 2 } })
+        )
+        .register(TestNotificationHandlerToken, { handle: handlerSpy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const notification: INotification<TestNotificationPayload> = {
+        createdAt: new Date(),
+        token: TestNotificationToken,
+        payload: { message: "test" },
+      };
+
+      await expect(eventBus.publish(notification, "parallel")).rejects.toThrow(
+        "Deadlock"
+      );
+      expect(handlerSpy).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("Concurrency", () => {
+    const [Handler1Token, Handler2Token, Handler3Token, Handler4Token] = [
+      "Handler1",
+      "Handler2",
+      "Handler3",
+      "Handler4",
+    ].map((key) =>
+      createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as(key, {
+        generics: [TestNotificationToken],
+      })
+    );
+
+    const createTrackingHandler = (
+      tracker: { running: number; maxRunning: number },
+      failing = false
+    ) => ({
+      async handle() {
+        tracker.running++;
+        tracker.maxRunning = Math.max(tracker.maxRunning, tracker.running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        tracker.running--;
+
+        if (failing) {
+          throw new Error("Handler failed");
+        }
+      },
+    });
+
+    const notification: INotification<TestNotificationPayload> = {
+      createdAt: new Date(),
+      token: TestNotificationToken,
+      payload: { message: "test" },
+    };
+
+    it.each(["parallel", "besteffort"] as const)(
+      "should cap the handlers running at once under the %s strategy",
+      async (strategy) => {
+        const tracker = { running: 0, maxRunning: 0 };
+
+        const container = buildDIContainer()
+          .register(MiddleWareOrderToken, [])
+          .registerFactory(IEventBusToken, EventBusFactory)
+          .register(Handler1Token, createTrackingHandler(tracker))
+          .register(Handler2Token, createTrackingHandler(tracker))
+          .register(Handler3Token, createTrackingHandler(tracker))
+          .register(Handler4Token, createTrackingHandler(tracker))
+          .getResult();
+
+        const eventBus = container.resolve(IEventBusToken);
+        const result = await eventBus.publish(notification, strategy, {
+          concurrency: 2,
+          collectResult: true,
+        });
+
+        expect(tracker.maxRunning).toBe(2);
+        expect(result.results.map(({ status }) => status)).toEqual([
+          "fulfilled",
+          "fulfilled",
+          "fulfilled",
+          "fulfilled",
+        ]);
+      }
+    );
+
+    it("should skip queued handlers once a parallel publish fails", async () => {
+      const tracker = { running: 0, maxRunning: 0 };
+      const handlerSpy = vi.fn();
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(Handler1Token, createTrackingHandler(tracker, true))
+        .register(Handler2Token, { handle: handlerSpy })
+        .register(Handler3Token, { handle: handlerSpy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+
+      await expect(
+        eventBus.publish(notification, "parallel", { concurrency: 1 })
+      ).rejects.toThrow("Handler failed");
+      expect(handlerSpy).not.toHaveBeenCalled();
+    });
+
+    it("should keep running queued handlers of a best effort publish after a failure", async () => {
+      const tracker = { running: 0, maxRunning: 0 };
+      const handlerSpy = vi.fn();
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(Handler1Token, createTrackingHandler(tracker, true))
+        .register(Handler2Token, { handle: handlerSpy })
+        .register(Handler3Token, { handle: handlerSpy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const result = await eventBus.publish(notification, "besteffort", {
+        concurrency: 1,
+      });
+
+      expect(handlerSpy).toHaveBeenCalledTimes(2);
+      expect(result.results.map(({ status }) => status)).toEqual([
+        "rejected",
+        "fulfilled",
+        "fulfilled",
+      ]);
+    });
+
+    it("should cap the handlers running at once across publishes", async () => {
+      const tracker = { running: 0, maxRunning: 0 };
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({ maxConcurrentHandlers: 3 })
+        )
+        .register(Handler1Token, createTrackingHandler(tracker))
+        .register(Handler2Token, createTrackingHandler(tracker))
+        .register(Handler3Token, createTrackingHandler(tracker))
+        .register(Handler4Token, createTrackingHandler(tracker))
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      await Promise.all([
+        eventBus.publish(notification, "parallel"),
+        eventBus.publish(notification, "parallel"),
+        eventBus.publish(notification, "sequential"),
+      ]);
+
+      expect(tracker.maxRunning).toBe(3);
+    });
+
+    it.each([
+      [
+        "the parent context",
+        createEventBusFactory({ maxConcurrentHandlers: 1 }),
+        true,
+      ],
+      [
+        "the async local storage",
+        createEventBusFactory({
+          maxConcurrentHandlers: 1,
+          asyncLocalStorage: new AsyncLocalStorage(),
+        }),
+        false,
+      ],
+    ] as const)(
+      "should run publishes nested in a handler within its slot, found through %s",
+      async (_, factory, passParent) => {
+        const nestedHandlerSpy = vi.fn();
+
+        const NestedNotificationToken = createNotificationDIToken<
+          INotification<TestNotificationPayload>
+        >().as("NestedNotification", {
+          generics: [TestNotificationPayloadToken],
+        });
+        const NestedHandlerToken = createNotificationHandlerDIToken<
+          INotificationHandler<INotification<TestNotificationPayload>>
+        >().as("NestedHandler", {
+          generics: [NestedNotificationToken],
+        });
+
+        const container = buildDIContainer()
+          .register(MiddleWareOrderToken, [])
+          .registerFactory(IEventBusToken, factory)
+          .register(Handler1Token, {
+            handle: async (notification, context) => {
+              await container
+                .resolve(IEventBusToken)
+                .publish(
+                  { ...notification, token: NestedNotificationToken },
+                  "parallel",
+                  passParent ? { parent: context } : undefined
+                );
+            },
+          })
+          .register(NestedHandlerToken, { handle: nestedHandlerSpy })
+          .getResult();
+
+        const eventBus = container.resolve(IEventBusToken);
+        await eventBus.publish(notification, "parallel");
+
+        expect(nestedHandlerSpy).toHaveBeenCalledTimes(1);
+
+        // The slot is released once the handler completes
+        await eventBus.publish(notification, "parallel");
+        expect(nestedHandlerSpy).toHaveBeenCalledTimes(2);
+      }
+    );
+  });
+
+  describe("Background Publishing", () => {
+    const notification: INotification<TestNotificationPayload> = {
+      createdAt: new Date(),
+      token: TestNotificationToken,
+      payload: { message: "test" },
+    };
+
+    it("should return before the handlers run and publish on drain", async () => {
+      const handlerSpy = vi.fn();
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(TestNotificationHandlerToken, { handle: handlerSpy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      await eventBus.publishLater(notification);
+
+      expect(handlerSpy).not.toHaveBeenCalled();
+
+      await eventBus.drain();
+      expect(handlerSpy).toHaveBeenCalledWith(
+        notification,
+        expect.objectContaining({ strategy: "besteffort" })
+      );
+    });
+
+    it("should keep the dispatch context of the caller", async () => {
+      const handlerSpy = vi.fn();
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({ asyncLocalStorage: new AsyncLocalStorage() })
+        )
+        .register(TestCommandHandlerToken, {
+          handle: async (command: ICommand<TestCommandPayload, string>) => {
+            await container.resolve(IEventBusToken).publishLater(notification);
+            return command.payload.input;
+          },
+        })
+        .register(TestNotificationHandlerToken, { handle: handlerSpy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      await eventBus.invoke({
+        createdAt: new Date(),
+        token: TestCommandToken,
+        payload: { input: "test" },
+        metadata: { messageId: "command-1", correlationId: "correlation-1" },
+      });
+      await eventBus.drain();
+
+      expect(handlerSpy).toHaveBeenCalledWith(
+        notification,
+        expect.objectContaining({
+          correlationId: "correlation-1",
+          causationId: "command-1",
+        })
+      );
+    });
+
+    it("should reject when the queue is full", async () => {
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({ queue: { maxSize: 1 } })
+        )
+        .register(TestNotificationHandlerToken, {
+          handle: () => new Promise((resolve) => setTimeout(resolve, 5)),
+        })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      await eventBus.publishLater(notification);
+      await eventBus.publishLater(notification);
+
+      await expect(eventBus.publishLater(notification)).rejects.toThrow(
+        QueueFullError
+      );
+      await eventBus.drain();
+    });
+
+    it("should report rejected background publishes", async () => {
+      const onError = vi.fn();
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({ queue: { onError } })
+        )
+        .register(TestNotificationHandlerToken, {
+          handle: vi.fn().mockRejectedValue(new Error("Handler failed")),
+        })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      await eventBus.publishLater(notification, "parallel");
+      await eventBus.drain();
+
+      expect(onError).toHaveBeenCalledWith(
+        new Error("Handler failed"),
+        notification
+      );
+    });
+
+    it("should stop accepting notifications after shutdown", async () => {
+      const handlerSpy = vi.fn();
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(TestNotificationHandlerToken, { handle: handlerSpy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      await eventBus.publishLater(notification);
+      await eventBus.shutdown();
+
+      expect(handlerSpy).toHaveBeenCalledTimes(1);
+      await expect(eventBus.publishLater(notification)).rejects.toThrow(
+        "Dispatch queue is shut down"
+      );
+    });
+  });
+
+  describe("Transport", () => {
+    const notification: INotification<TestNotificationPayload> = {
+      createdAt: new Date(),
+      token: TestNotificationToken,
+      payload: { message: "test" },
+      metadata: { messageId: "message-1", correlationId: "correlation-1" },
+    };
+
+    it("should dispatch outgoing notifications to the handlers of the remote bus", async () => {
+      const [senderTransport, receiverTransport] =
+        createInMemoryTransportPair();
+      const localHandlerSpy = vi.fn();
+      const remoteHandlerSpy = vi.fn();
+
+      const sender = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({
+            transport: {
+              transport: senderTransport,
+              outgoing: ["TestNotification"],
+            },
+          })
+        )
+        .register(TestNotificationHandlerToken, { handle: localHandlerSpy })
+        .getResult()
+        .resolve(IEventBusToken);
+
+      const receiver = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({
+            transport: { transport: receiverTransport },
+          })
+        )
+        .register(TestNotificationHandlerToken, { handle: remoteHandlerSpy })
+        .getResult()
+        .resolve(IEventBusToken);
+
+      await sender.publish(notification);
+
+      expect(localHandlerSpy).toHaveBeenCalledTimes(1);
+      await vi.waitFor(() => expect(remoteHandlerSpy).toHaveBeenCalled());
+      expect(remoteHandlerSpy).toHaveBeenCalledWith(
+        {
+          token: TestNotificationToken,
+          payload: { message: "test" },
+          createdAt: notification.createdAt,
+          metadata: expect.objectContaining({
+            messageId: "message-1",
+            correlationId: "correlation-1",
+          }),
+        },
+        expect.objectContaining({ correlationId: "correlation-1" })
+      );
+
+      await receiver.shutdown();
+    });
+
+    it("should not send notifications that are not outgoing or were received", async () => {
+      const transport = {
+        send: vi.fn().mockResolvedValue(undefined),
+        subscribe: vi.fn().mockReturnValue(() => {}),
+      };
+
+      const eventBus = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({
+            transport: {
+              transport,
+              outgoing: (tokenKey) => tokenKey === "TestNotification",
+            },
+          })
+        )
+        .register(TestNotificationHandlerToken, { handle: vi.fn() })
+        .getResult()
+        .resolve(IEventBusToken);
+
+      const receive = transport.subscribe.mock.calls[0][0];
+      await receive({
+        type: "TestNotification",
+        version: 1,
+        payload: { message: "received" },
+        createdAt: new Date().toISOString(),
+      });
+      await eventBus.publish({
+        ...notification,
+        token:
+          createNotificationDIToken<
+            INotification<TestNotificationPayload>
+          >().as("OtherNotification"),
+      });
+
+      expect(transport.send).not.toHaveBeenCalled();
+
+      await eventBus.publish(notification);
+      expect(transport.send).toHaveBeenCalledWith({
+        type: "TestNotification",
+        version: 1,
+        payload: { message: "test" },
+        createdAt: notification.createdAt.toISOString(),
+        metadata: expect.objectContaining({ messageId: "message-1" }),
+      });
+    });
+    it("should receive notifications handled through the tokens they implement", async () => {
+      const transport = {
+        send: vi.fn().mockResolvedValue(undefined),
+        subscribe: vi.fn().mockReturnValue(() => {}),
+      };
+      const orderHandlerSpy = vi.fn();
+      const onError = vi.fn();
+
+      const OrderEventToken =
+        createNotificationDIToken<INotification<{ orderId: string }>>().as(
+          "OrderEvent"
+        );
+      const OrderPlacedToken = createNotificationDIToken<
+        INotification<{ orderId: string }>
+      >().as("order.placed", { implements: [OrderEventToken] });
+
+      buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({ transport: { transport, onError } })
+        )
+        .register(OrderPlacedToken, OrderPlacedToken.create({ orderId: "1" }))
+        .register(
+          createNotificationHandlerDIToken<
+            INotificationHandler<INotification<{ orderId: string }>>
+          >().as("OrderEventHandler", { generics: [OrderEventToken] }),
+          { handle: orderHandlerSpy }
+        )
+        .getResult()
+        .resolve(IEventBusToken);
+
+      const receive = transport.subscribe.mock.calls[0][0];
+      await receive({
+        type: "order.placed",
+        version: 1,
+        payload: { orderId: "1" },
+        createdAt: new Date().toISOString(),
+      });
+      const unknown = {
+        type: "order.cancelled",
+        version: 1,
+        payload: { orderId: "1" },
+        createdAt: new Date().toISOString(),
+      };
+      await receive(unknown);
+
+      expect(orderHandlerSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          token: OrderPlacedToken,
+          payload: { orderId: "1" },
+        }),
+        expect.anything()
+      );
+      expect(onError).toHaveBeenCalledWith(
+        new Error("No codec registered for message type order.cancelled"),
+        unknown
+      );
+    });
+  });
+
+  describe("Dead Letters", () => {
+    const Handler1Token = createNotificationHandlerDIToken<
+      INotificationHandler<INotification<TestNotificationPayload>>
+    >().as("Handler1", {
+      generics: [TestNotificationToken],
+    });
+
+    const Handler2Token = createNotificationHandlerDIToken<
+      INotificationHandler<INotification<TestNotificationPayload>>
+    >().as("Handler2", {
+      generics: [TestNotificationToken],
+    });
+
+    const notification: INotification<TestNotificationPayload> = {
+      createdAt: new Date(),
+      token: TestNotificationToken,
+      payload: { message: "test" },
+    };
+
+    it("should record a dead letter when a handler fails", async () => {
+      const handlerError = new Error("Handler 1 failed");
+      const deadLetterStore = createInMemoryDeadLetterStore();
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({
+            deadLetterStore,
+            retryPolicy: { maxAttempts: 2 },
+          })
+        )
+        .register(Handler1Token, {
+          handle: vi.fn().mockRejectedValue(handlerError),
+        })
+        .register(Handler2Token, {
+          handle: vi.fn().mockResolvedValue(undefined),
+        })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      await eventBus.publish(notification, "besteffort");
+
+      const deadLetters = await deadLetterStore.list();
+      expect(deadLetters).toEqual([
+        {
+          id: expect.any(String),
+          notification,
+          handlerKey: "Handler1",
+          error: handlerError,
+          attempts: 2,
+          failedAt: expect.any(Date),
+        },
+      ]);
+      expect(await eventBus.deadLetters.list()).toEqual(deadLetters);
+    });
+
+    it.each(["sequential", "parallel"] as const)(
+      "should not record a dead letter when the %s publish rejects with the error",
+      async (strategy) => {
+        const container = buildDIContainer()
+          .register(MiddleWareOrderToken, [])
+          .registerFactory(IEventBusToken, EventBusFactory)
+          .register(Handler1Token, {
+            handle: vi.fn().mockRejectedValue(new Error("Handler 1 failed")),
+          })
+          .getResult();
+
+        const eventBus = container.resolve(IEventBusToken);
+
+        await expect(eventBus.publish(notification, strategy)).rejects.toThrow(
+          "Handler 1 failed"
+        );
+        await expect(
+          eventBus.publish(notification, strategy, { collectResult: true })
+        ).rejects.toThrow(PublishError);
+        expect(await eventBus.deadLetters.list()).toEqual([]);
+      }
+    );
+
+    it("should replay a dead letter to its failed handler only", async () => {
+      const handler1Spy = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Handler 1 failed"))
+        .mockResolvedValue(undefined);
+      const handler2Spy = vi.fn().mockResolvedValue(undefined);
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(Handler1Token, { handle: handler1Spy })
+        .register(Handler2Token, { handle: handler2Spy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      await eventBus.publish(notification);
+
+      const [deadLetter] = await eventBus.deadLetters.list({
+        handlerKey: "Handler1",
+      });
+      const result = await eventBus.deadLetters.replay(deadLetter.id);
+
+      expect(result.status).toBe("fulfilled");
+      expect(handler1Spy).toHaveBeenCalledTimes(2);
+      expect(handler2Spy).toHaveBeenCalledTimes(1);
+      expect(await eventBus.deadLetters.list()).toEqual([]);
+    });
+
+    it("should keep the dead letter and accumulate attempts when a replay fails", async () => {
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(Handler1Token, {
+          handle: vi.fn().mockRejectedValue(new Error("Handler 1 failed")),
+        })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      await eventBus.publish(notification);
+
+      const [deadLetter] = await eventBus.deadLetters.list();
+      const result = await eventBus.deadLetters.replay(deadLetter.id);
+
+      expect(result.status).toBe("rejected");
+      expect(await eventBus.deadLetters.list()).toEqual([
+        { ...deadLetter, attempts: 2, failedAt: expect.any(Date) },
+      ]);
+    });
+
+    it("should purge dead letters matching a filter", async () => {
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(Handler1Token, {
+          handle: vi.fn().mockRejectedValue(new Error("Handler 1 failed")),
+        })
+        .register(Handler2Token, {
+          handle: vi.fn().mockRejectedValue(new Error("Handler 2 failed")),
+        })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      await eventBus.publish(notification);
+
+      expect(await eventBus.deadLetters.purge({ handlerKey: "Handler1" })).toBe(
+        1
+      );
+      expect(
+        (await eventBus.deadLetters.list()).map((d) => d.handlerKey)
+      ).toEqual(["Handler2"]);
+      expect(await eventBus.deadLetters.purge()).toBe(1);
+    });
+
+    it("should throw when replaying an unknown dead letter", async () => {
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+
+      await expect(eventBus.deadLetters.replay("missing")).rejects.toThrow(
+        "Dead letter not found: missing"
+      );
+    });
+  });
+
+  describe("Outbox", () => {
+    const createOutboxContainer = (
+      commandHandler: ICommandHandler<ICommand<TestCommandPayload, string>>,
+      notificationHandler: INotificationHandler<any>,
+      onDiscard = vi.fn()
+    ) =>
+      buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({
+            asyncLocalStorage: new AsyncLocalStorage(),
+            outbox: { onDiscard },
+          })
+        )
+        .register(TestCommandHandlerToken, commandHandler)
+        .register(TestNotificationHandlerToken, notificationHandler)
+        .getResult();
+
+    const createCommand = (
+      input: string
+    ): ICommand<TestCommandPayload, string> => ({
+      createdAt: new Date(),
+      token: TestCommandToken,
+      payload: { input },
+    });
+
+    const createNotification = (
+      message: string
+    ): INotification<TestNotificationPayload> => ({
+      createdAt: new Date(),
+      token: TestNotificationToken,
+      payload: { message },
+    });
+
+    it("should dispatch notifications published by a command handler after it resolves", async () => {
+      const log: string[] = [];
+      const publishResults: unknown[] = [];
+
+      const container = createOutboxContainer(
+        {
+          handle: async (cmd) => {
+            publishResults.push(
+              await container
+                .resolve(IEventBusToken)
+                .publish(createNotification(cmd.payload.input))
+            );
+            log.push("command handled");
+            return cmd.payload.input;
+          },
+        },
+        {
+          handle: async (notification) => {
+            log.push(`notification ${notification.payload.message}`);
+          },
+        }
+      );
+
+      const result = await container
+        .resolve(IEventBusToken)
+        .invoke(createCommand("hello"));
+
+      expect(result).toBe("hello");
+      expect(log).toEqual(["command handled", "notification hello"]);
+      expect(publishResults).toEqual([
+        {
+          notificationKey: "TestNotification",
+          results: [],
+          errors: [],
+          deferred: true,
+        },
+      ]);
+    });
+
+    it("should discard buffered notifications and call the hook when the command rejects", async () => {
+      const notificationHandlerSpy = vi.fn();
+      const onDiscard = vi.fn();
+      const commandError = new Error("Command failed");
+
+      const container = createOutboxContainer(
+        {
+          handle: async (cmd) => {
+            await container
+              .resolve(IEventBusToken)
+              .publish(createNotification(cmd.payload.input), "sequential");
+            throw commandError;
+          },
+        },
+        { handle: notificationHandlerSpy },
+        onDiscard
+      );
+
+      await expect(
+        container.resolve(IEventBusToken).invoke(createCommand("hello"))
+      ).rejects.toThrow("Command failed");
+
+      expect(notificationHandlerSpy).not.toHaveBeenCalled();
+      expect(onDiscard).toHaveBeenCalledWith(
+        [
+          {
+            id: expect.any(String),
+            envelope: expect.objectContaining({
+              type: "TestNotification",
+              payload: { message: "hello" },
+            }),
+            strategy: "sequential",
+            options: undefined,
+          },
+        ],
+        commandError
+      );
+    });
+
+    it("should dispatch every buffered notification and resolve with the result when one fails", async () => {
+      const handled: string[] = [];
+      const onFlushError = vi.fn();
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({
+            asyncLocalStorage: new AsyncLocalStorage(),
+            outbox: { onFlushError },
+          })
+        )
+        .register(TestCommandHandlerToken, {
+          handle: async (cmd) => {
+            const eventBus = container.resolve(IEventBusToken);
+            await eventBus.publish(createNotification("fail"), "parallel");
+            await eventBus.publish(createNotification("hello"), "parallel");
+            return cmd.payload.input;
+          },
+        })
+        .register(TestNotificationHandlerToken, {
+          handle: async (
+            notification: INotification<TestNotificationPayload>
+          ) => {
+            if (notification.payload.message === "fail") {
+              throw new Error("Handler failed");
+            }
+            handled.push(notification.payload.message);
+          },
+        })
+        .getResult();
+
+      const result = await container
+        .resolve(IEventBusToken)
+        .invoke(createCommand("done"));
+
+      expect(result).toBe("done");
+      expect(handled).toEqual(["hello"]);
+      expect(onFlushError).toHaveBeenCalledTimes(1);
+      expect(onFlushError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          envelope: expect.objectContaining({ payload: { message: "fail" } }),
+        }),
+        expect.any(Error)
+      );
+    });
+
+    it("should buffer entries a persistent store can serialize", async () => {
+      const notificationHandlerSpy = vi.fn();
+      const rows = new Map<string, string[]>();
+      const store: IOutboxStore = {
+        async add(unitOfWorkId, entry) {
+          rows.set(unitOfWorkId, [
+            ...(rows.get(unitOfWorkId) ?? []),
+            JSON.stringify(entry),
+          ]);
+        },
+        async list(unitOfWorkId) {
+          return (rows.get(unitOfWorkId) ?? []).map((row) => JSON.parse(row));
+        },
+        async remove(unitOfWorkId, id) {
+          rows.set(
+            unitOfWorkId,
+            (rows.get(unitOfWorkId) ?? []).filter(
+              (row) => JSON.parse(row).id !== id
+            )
+          );
+        },
+        async clear(unitOfWorkId) {
+          rows.delete(unitOfWorkId);
+        },
+      };
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({
+            asyncLocalStorage: new AsyncLocalStorage(),
+            outbox: { store },
+          })
+        )
+        .register(TestCommandHandlerToken, {
+          handle: async (cmd, context) => {
+            await container
+              .resolve(IEventBusToken)
+              .publish(createNotification(cmd.payload.input), "parallel", {
+                signal: context.signal,
+                parent: context,
+                timeout: 1000,
+              });
+            return cmd.payload.input;
+          },
+        })
+        .register(TestNotificationHandlerToken, {
+          handle: notificationHandlerSpy,
+        })
+        .getResult();
+
+      await container.resolve(IEventBusToken).invoke(createCommand("hello"));
+
+      expect(notificationHandlerSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          token: TestNotificationToken,
+          payload: { message: "hello" },
+          createdAt: expect.any(Date),
+        }),
+        expect.anything()
+      );
+      expect([...rows.values()].flat()).toEqual([]);
+    });
+
+    it("should dispatch notifications immediately outside of an invoke", async () => {
+      const notificationHandlerSpy = vi.fn();
+      const container = createOutboxContainer(
+        { handle: vi.fn() },
+        { handle: notificationHandlerSpy }
+      );
+
+      const result = await container
+        .resolve(IEventBusToken)
+        .publish(createNotification("hello"));
+
+      expect(result.deferred).toBeUndefined();
+      expect(notificationHandlerSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("should discard notifications published after the invoke timed out", async () => {
+      const notificationHandlerSpy = vi.fn();
+      const onDiscard = vi.fn();
+      let latePublish: Promise<unknown> | undefined;
+
+      const container = createOutboxContainer(
+        {
+          handle: async (cmd) => {
+            await new Promise((resolve) => setTimeout(resolve, 30));
+            latePublish = container
+              .resolve(IEventBusToken)
+              .publish(createNotification(cmd.payload.input))
+              .catch((error) => error);
+            return cmd.payload.input;
+          },
+        },
+        { handle: notificationHandlerSpy },
+        onDiscard
+      );
+
+      const error = await container
+        .resolve(IEventBusToken)
+        .invoke(createCommand("hello"), { timeout: 10 })
+        .catch((error) => error);
+      await vi.waitFor(() => expect(latePublish).toBeDefined());
+
+      expect(await latePublish).toHaveProperty(
+        "message",
+        "Cannot publish TestNotification: the invoke that published it already rejected"
+      );
+      expect(onDiscard).toHaveBeenLastCalledWith(
+        [expect.objectContaining({ strategy: "besteffort" })],
+        error
+      );
+      expect(notificationHandlerSpy).not.toHaveBeenCalled();
+    });
+
+    it("should validate buffered notifications once with a transforming validator", async () => {
+      type ShippedPayload = { shippedAt: Date };
+
+      const ShippedToken = createNotificationDIToken<
+        INotification<ShippedPayload>
+      >().as("Shipped", {
+        validate: (payload: any) =>
+          typeof payload?.shippedAt === "string"
+            ? { value: { shippedAt: new Date(payload.shippedAt) } }
+            : {
+                issues: [{ message: "Expected a string", path: ["shippedAt"] }],
+              },
+      });
+      const ShippedHandlerToken = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<ShippedPayload>>
+      >().as("ShippedHandler", { generics: [ShippedToken] });
+
+      const notificationHandlerSpy = vi.fn();
+      const onFlushError = vi.fn();
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({
+            asyncLocalStorage: new AsyncLocalStorage(),
+            outbox: { onFlushError },
+          })
+        )
+        .register(TestCommandHandlerToken, {
+          handle: async (cmd) => {
+            await container.resolve(IEventBusToken).publish({
+              createdAt: new Date(),
+              token: ShippedToken,
+              payload: { shippedAt: "2024-01-01T00:00:00.000Z" } as any,
+            });
+            return cmd.payload.input;
+          },
+        })
+        .register(ShippedHandlerToken, { handle: notificationHandlerSpy })
+        .getResult();
+
+      await container.resolve(IEventBusToken).invoke(createCommand("hello"));
+
+      expect(onFlushError).not.toHaveBeenCalled();
+      expect(notificationHandlerSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payload: { shippedAt: new Date("2024-01-01T00:00:00.000Z") },
+        }),
+        expect.anything()
+      );
+    });
+
+    it("should throw when the outbox is enabled without an async local storage", () => {
+      expect(() => {
+        const container = buildDIContainer()
+          .register(MiddleWareOrderToken, [])
+          .registerFactory(
+            IEventBusToken,
+            createEventBusFactory({ outbox: {} })
+          )
+          .getResult();
+
+        container.resolve(IEventBusToken);
+      }).toThrow(
+        "Outbox requires an asyncLocalStorage to track invokes in progress"
+      );
+    });
+  });
+
+  describe("Cancellation", () => {
+    it("should reject an invoke with a HandlerTimeoutError and abort the handler signal", async () => {
+      let handlerSignal: AbortSignal | undefined;
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(TestCommandHandlerToken, {
+          handle: async (cmd, { signal }) => {
+            handlerSignal = signal;
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            return cmd.payload.input;
+          },
+        })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const command: ICommand<TestCommandPayload, string> = {
+        createdAt: new Date(),
+        token: TestCommandToken,
+        payload: { input: "hello" },
+      };
+
+      const error = await eventBus
+        .invoke(command, { timeout: 10 })
+        .catch((error) => error);
+
+      expect(error).toBeInstanceOf(HandlerTimeoutError);
+      expect(error).toMatchObject({ tokenKey: "TestCommand", timeout: 10 });
+      expect(handlerSignal?.aborted).toBe(true);
+      expect(handlerSignal?.reason).toBe(error);
+    });
+
+    it("should pass the dispatch signal through the middleware pipeline", async () => {
+      const controller = new AbortController();
+      const middlewareSpy = vi
+        .fn()
+        .mockImplementation(async (req, next) => next(req));
+      const handlerSpy = vi.fn().mockResolvedValue("HELLO");
+
+      const LoggingMiddlewareToken = createMiddlewareDIToken<any, any>().as(
+        "LoggingMiddleware",
+        { generics: [ICommandToken] }
+      );
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [LoggingMiddlewareToken])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(LoggingMiddlewareToken, { handle: middlewareSpy })
+        .register(TestCommandHandlerToken, { handle: handlerSpy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const command: ICommand<TestCommandPayload, string> = {
+        createdAt: new Date(),
+        token: TestCommandToken,
+        payload: { input: "hello" },
+      };
+
+      await eventBus.invoke(command, { signal: controller.signal });
+
+      const middlewareContext = middlewareSpy.mock.calls[0][2];
+      expect(middlewareContext.signal).toBeInstanceOf(AbortSignal);
+      expect(handlerSpy.mock.calls[0][1]).toBe(middlewareContext);
+    });
+
+    it("should stop queued handlers when a sequential publish is aborted", async () => {
+      const controller = new AbortController();
+      const abortReason = new Error("Request cancelled");
+
+      const Handler1Token = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("Handler1", {
+        generics: [TestNotificationToken],
+      });
+
+      const Handler2Token = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("Handler2", {
+        generics: [TestNotificationToken],
+      });
+
+      const handler1Spy = vi.fn().mockImplementation(async () => {
+        controller.abort(abortReason);
+      });
+      const handler2Spy = vi.fn().mockResolvedValue(undefined);
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(Handler1Token, { handle: handler1Spy })
+        .register(Handler2Token, { handle: handler2Spy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const notification: INotification<TestNotificationPayload> = {
+        createdAt: new Date(),
+        token: TestNotificationToken,
+        payload: { message: "test" },
+      };
+
+      await expect(
+        eventBus.publish(notification, "sequential", {
+          signal: controller.signal,
+        })
+      ).rejects.toBe(abortReason);
+      expect(handler1Spy).toHaveBeenCalled();
+      expect(handler2Spy).not.toHaveBeenCalled();
+      expect(await eventBus.deadLetters.list()).toEqual([]);
+    });
+
+    it("should not run any handler when the signal is already aborted", async () => {
+      const handlerSpy = vi.fn().mockResolvedValue(undefined);
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(TestNotificationHandlerToken, { handle: handlerSpy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const notification: INotification<TestNotificationPayload> = {
+        createdAt: new Date(),
+        token: TestNotificationToken,
+        payload: { message: "test" },
+      };
+
+      await expect(
+        eventBus.publish(notification, "parallel", {
+          signal: AbortSignal.abort(new Error("Aborted")),
+        })
+      ).rejects.toThrow("Aborted");
+      expect(handlerSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Dispatch Context", () => {
+    it("should propagate the context to nested dispatches through the async local storage", async () => {
+      const contexts: Record<string, HandlerContext> = {};
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({ asyncLocalStorage: new AsyncLocalStorage() })
+        )
+        .register(TestCommandHandlerToken, {
+          handle: async (cmd, context) => {
+            contexts.command = context;
+            await container.resolve(IEventBusToken).publish({
+              createdAt: new Date(),
+              token: TestNotificationToken,
+              payload: { message: cmd.payload.input },
+            });
+            return cmd.payload.input;
+          },
+        })
+        .register(TestNotificationHandlerToken, {
+          handle: async (_notification, context) => {
+            contexts.notification = context;
+          },
+        })
+        .getResult();
+
+      await container.resolve(IEventBusToken).invoke({
+        createdAt: new Date(),
+        token: TestCommandToken,
+        payload: { input: "hello" },
+        metadata: {
+          messageId: "command-1",
+          correlationId: "request-1",
+          userId: "user-1",
+          items: { locale: "en" },
+        },
+      });
+
+      expect(contexts.command).toMatchObject({
+        messageId: "command-1",
+        correlationId: "request-1",
+        userId: "user-1",
+      });
+      expect(contexts.notification).toMatchObject({
+        messageId: expect.any(String),
+        correlationId: "request-1",
+        causationId: "command-1",
+        userId: "user-1",
+        items: { locale: "en" },
+      });
+    });
+
+    it("should inherit the context passed explicitly as parent", async () => {
+      const middlewareSpy = vi
+        .fn()
+        .mockImplementation(async (req, next) => next(req));
+
+      const LoggingMiddlewareToken = createMiddlewareDIToken<any, any>().as(
+        "LoggingMiddleware",
+        { generics: [INotificationToken] }
+      );
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [LoggingMiddlewareToken])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(LoggingMiddlewareToken, { handle: middlewareSpy })
+        .register(TestCommandHandlerToken, {
+          handle: async (cmd, context) => {
+            await container.resolve(IEventBusToken).publish(
+              {
+                createdAt: new Date(),
+                token: TestNotificationToken,
+                payload: { message: cmd.payload.input },
+              },
+              "parallel",
+              { parent: context }
+            );
+            return cmd.payload.input;
+          },
+        })
+        .getResult();
+
+      await container.resolve(IEventBusToken).invoke({
+        createdAt: new Date(),
+        token: TestCommandToken,
+        payload: { input: "hello" },
+        metadata: { messageId: "command-1", tenantId: "tenant-1" },
+      });
+
+      expect(middlewareSpy.mock.calls[0][2]).toMatchObject({
+        correlationId: "command-1",
+        causationId: "command-1",
+        tenantId: "tenant-1",
+      });
+    });
+
+    it("should keep the causal chain of notifications buffered by the outbox", async () => {
+      const notificationHandlerSpy = vi.fn();
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({
+            asyncLocalStorage: new AsyncLocalStorage(),
+            outbox: {},
+          })
+        )
+        .register(TestCommandHandlerToken, {
+          handle: async (cmd) => {
+            await container.resolve(IEventBusToken).publish({
+              createdAt: new Date(),
+              token: TestNotificationToken,
+              payload: { message: cmd.payload.input },
+            });
+            return cmd.payload.input;
+          },
+        })
+        .register(TestNotificationHandlerToken, {
+          handle: notificationHandlerSpy,
+        })
+        .getResult();
+
+      await container.resolve(IEventBusToken).invoke({
+        createdAt: new Date(),
+        token: TestCommandToken,
+        payload: { input: "hello" },
+        metadata: { messageId: "command-1" },
+      });
+
+      const [notification, context] = notificationHandlerSpy.mock.calls[0];
+      expect(notification.metadata).toMatchObject({
+        correlationId: "command-1",
+        causationId: "command-1",
+      });
+      expect(context).toMatchObject({
+        messageId: notification.metadata.messageId,
+        correlationId: "command-1",
+        causationId: "command-1",
+      });
+    });
+  });
+
+  describe("Dispatch Scopes", () => {
+    const createScopeFactory = (dispose = vi.fn()) =>
+      vi.fn((_container: unknown, context: DispatchContext) => ({
+        container: buildDIContainer()
+          .register(TestCommandHandlerToken, {
+            handle: async (cmd) => `${cmd.payload.input} by ${context.userId}`,
+          })
+          .getResult(),
+        dispose,
+      }));
+
+    const createContainer = (options: EventBusOptions) =>
+      buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, createEventBusFactory(options))
+        .register(TestCommandHandlerToken, {
+          handle: async () => "root",
+        })
+        .getResult();
+
+    it("should resolve handlers from the scope of each dispatch and dispose it", async () => {
+      const dispose = vi.fn();
+      const scope = createScopeFactory(dispose);
+      const eventBus = createContainer({ scope }).resolve(IEventBusToken);
+
+      const result = await eventBus.invoke(
+        TestCommandToken.create({ input: "hello" }, { userId: "user-1" })
+      );
+
+      expect(result).toBe("hello by user-1");
+      expect(scope).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ userId: "user-1" })
+      );
+      expect(dispose).toHaveBeenCalledTimes(1);
+    });
+
+    it("should dispose the scope when the dispatch fails", async () => {
+      const dispose = vi.fn();
+      const eventBus = createContainer({
+        scope: () => ({
+          container: buildDIContainer()
+            .register(TestCommandHandlerToken, {
+              handle: async () => {
+                throw new Error("Handler failed");
+              },
+            })
+            .getResult(),
+          dispose,
+        }),
+      }).resolve(IEventBusToken);
+
+      await expect(
+        eventBus.invoke(TestCommandToken.create({ input: "hello" }))
+      ).rejects.toThrow("Handler failed");
+      expect(dispose).toHaveBeenCalledTimes(1);
     });
 
-    it("should stop execution on first error in sequential strategy", async () => {
-      const handler1Spy = vi
-        .fn()
-        .mockRejectedValue(new Error("Handler 1 failed"));
-      const handler2Spy = vi.fn().mockResolvedValue(undefined);
+    it("should prefer the scope supplied by the caller", async () => {
+      const factoryScope = createScopeFactory();
+      const callerScope = createScopeFactory();
+      const eventBus = createContainer({ scope: factoryScope }).resolve(
+        IEventBusToken
+      );
 
-      const Handler1Token = createNotificationHandlerDIToken<
-        INotificationHandler<INotification<TestNotificationPayload>>
-      >().as("Handler1", {
-        generics: [TestNotificationToken],
+      await eventBus.invoke(TestCommandToken.create({ input: "hello" }), {
+        scope: callerScope,
       });
 
-      const Handler2Token = createNotificationHandlerDIToken<
-        INotificationHandler<INotification<TestNotificationPayload>>
-      >().as("Handler2", {
-        generics: [TestNotificationToken],
-      });
+      expect(callerScope).toHaveBeenCalledTimes(1);
+      expect(factoryScope).not.toHaveBeenCalled();
+    });
 
-      const container = buildDIContainer()
-        .register(MiddleWareOrderToken, [])
-        .registerFactory(IEventBusToken, EventBusFactory)
-        .register(Handler1Token, { handle: handler1Spy })
-        .register(Handler2Token, { handle: handler2Spy })
+    it("should share the scope with nested dispatches", async () => {
+      const notificationHandlerSpy = vi.fn();
+      const scopeContainer = buildDIContainer()
+        .register(TestCommandHandlerToken, {
+          handle: async (cmd) => {
+            await eventBus.publish(
+              TestNotificationToken.create({ message: cmd.payload.input })
+            );
+            return cmd.payload.input;
+          },
+        })
+        .register(TestNotificationHandlerToken, {
+          handle: notificationHandlerSpy,
+        })
         .getResult();
+      const scope = vi.fn(() => ({ container: scopeContainer }));
 
-      const eventBus = container.resolve(IEventBusToken);
-      const notification: INotification<TestNotificationPayload> = {
-        createdAt: new Date(),
-        token: TestNotificationToken,
-        payload: { message: "test" },
-      };
-
-      await expect(
-        eventBus.publish(notification, "sequential")
-      ).rejects.toThrow("Handler 1 failed");
-      expect(handler1Spy).toHaveBeenCalled();
-      expect(handler2Spy).not.toHaveBeenCalled();
+      const eventBus = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({
+            asyncLocalStorage: new AsyncLocalStorage(),
+            scope,
+          })
+        )
+        .register(TestCommandHandlerToken, { handle: async () => "root" })
+        .register(TestNotificationHandlerToken, { handle: async () => {} })
+        .getResult()
+        .resolve(IEventBusToken);
+
+      await eventBus.invoke(TestCommandToken.create({ input: "hello" }));
+
+      expect(scope).toHaveBeenCalledTimes(1);
+      expect(notificationHandlerSpy).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -386,7 +2429,273 @@ describe("EventBus", () => {
     });
   });
 
+  describe("Message Factories", () => {
+    it("should build messages stamped with an id and the clock time", () => {
+      const now = new Date("2024-01-01T00:00:00.000Z");
+      const restoreClock = setMessageClock({ now: () => now });
+
+      try {
+        const notification = TestNotificationToken.create(
+          { message: "test" },
+          { correlationId: "correlation-1" }
+        );
+
+        expect(notification).toEqual({
+          token: TestNotificationToken,
+          payload: { message: "test" },
+          createdAt: now,
+          metadata: {
+            messageId: expect.any(String),
+            correlationId: "correlation-1",
+          },
+        });
+        expect(
+          TestNotificationToken.create({ message: "test" }).metadata?.messageId
+        ).not.toBe(notification.metadata?.messageId);
+      } finally {
+        restoreClock();
+      }
+    });
+
+    it("should invoke messages built by their token", async () => {
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(TestCommandHandlerToken, {
+          handle: async (command: ICommand<TestCommandPayload, string>) =>
+            command.payload.input.toUpperCase(),
+        })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const result: string = await eventBus.invoke(
+        TestCommandToken.create({ input: "hello" })
+      );
+
+      expect(result).toBe("HELLO");
+    });
+  });
+
+  describe("Validation", () => {
+    const ValidatedCommandToken = createCommandDIToken<
+      ICommand<TestCommandPayload, string>
+    >().as("ValidatedCommand", {
+      generics: [TestCommandPayloadToken],
+      validate: (payload: any) =>
+        typeof payload?.input === "string"
+          ? { value: { input: payload.input.trim() } }
+          : { issues: [{ message: "Expected a string", path: ["input"] }] },
+    });
+
+    const ValidatedCommandHandlerToken = createCommandHandlerDIToken<
+      ICommandHandler<ICommand<TestCommandPayload, string>>
+    >().as("ValidatedCommandHandler", {
+      generics: [ValidatedCommandToken],
+    });
+
+    const ValidationMiddlewareToken = createMiddlewareDIToken<
+      ICommand<TestCommandPayload, string>,
+      string
+    >().as("ValidationMiddleware", {
+      generics: [ICommandToken],
+    });
+
+    const createValidatedBus = (middlewareSpy = vi.fn()) =>
+      buildDIContainer()
+        .register(MiddleWareOrderToken, [ValidationMiddlewareToken])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(ValidationMiddlewareToken, {
+          handle: async (command, next) => {
+            middlewareSpy(command);
+            return next(command);
+          },
+        })
+        .register(ValidatedCommandHandlerToken, {
+          handle: async (command) => command.payload.input,
+        })
+        .getResult()
+        .resolve(IEventBusToken);
+
+    it("should pass the validated payload down the pipeline", async () => {
+      const middlewareSpy = vi.fn();
+      const eventBus = createValidatedBus(middlewareSpy);
+
+      const result = await eventBus.invoke({
+        createdAt: new Date(),
+        token: ValidatedCommandToken,
+        payload: { input: "  hello  " },
+      });
+
+      expect(result).toBe("hello");
+      expect(middlewareSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ payload: { input: "hello" } })
+      );
+    });
+
+    it("should reject invalid payloads before the middleware pipeline", async () => {
+      const middlewareSpy = vi.fn();
+      const eventBus = createValidatedBus(middlewareSpy);
+
+      const invoke = eventBus.invoke({
+        createdAt: new Date(),
+        token: ValidatedCommandToken,
+        payload: { input: 42 } as any,
+      });
+
+      await expect(invoke).rejects.toThrow(ValidationError);
+      await expect(invoke).rejects.toMatchObject({
+        tokenKey: "ValidatedCommand",
+        issues: [{ message: "Expected a string", path: ["input"] }],
+      });
+      expect(middlewareSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject published notifications with invalid payloads", async () => {
+      const handlerSpy = vi.fn();
+
+      const ValidatedNotificationToken = createNotificationDIToken<
+        INotification<TestNotificationPayload>
+      >().as("ValidatedNotification", {
+        validate: async () => ({ issues: [{ message: "Invalid" }] }),
+      });
+
+      const ValidatedNotificationHandlerToken =
+        createNotificationHandlerDIToken<
+          INotificationHandler<INotification<TestNotificationPayload>>
+        >().as("ValidatedNotificationHandler", {
+          generics: [ValidatedNotificationToken],
+        });
+
+      const eventBus = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(ValidatedNotificationHandlerToken, { handle: handlerSpy })
+        .getResult()
+        .resolve(IEventBusToken);
+
+      await expect(
+        eventBus.publish({
+          createdAt: new Date(),
+          token: ValidatedNotificationToken,
+          payload: { message: "test" },
+        })
+      ).rejects.toThrow("Invalid payload for ValidatedNotification: Invalid");
+      expect(handlerSpy).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Middlewares", () => {
+    it("should reuse the compiled pipeline of a token across dispatches", async () => {
+      const log: string[] = [];
+
+      const CommandMiddlewareToken = createMiddlewareDIToken<
+        ICommand<TestCommandPayload, string>,
+        string
+      >().as("CommandMiddleware", { generics: [ICommandToken] });
+
+      const SpecificMiddlewareToken = createMiddlewareDIToken<
+        ICommand<TestCommandPayload, string>,
+        string
+      >().as("SpecificMiddleware", { generics: [TestCommandToken] });
+
+      const eventBus = buildDIContainer()
+        .register(MiddleWareOrderToken, [
+          SpecificMiddlewareToken,
+          CommandMiddlewareToken,
+        ])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(CommandMiddlewareToken, {
+          handle: async (command, next) => {
+            log.push(`command ${command.payload.input}`);
+            return next(command);
+          },
+        })
+        .register(SpecificMiddlewareToken, {
+          handle: async (command, next) => {
+            log.push(`specific ${command.payload.input}`);
+            return next(command);
+          },
+        })
+        .register(TestCommandHandlerToken, {
+          handle: async (command) => command.payload.input,
+        })
+        .register(TestQueryHandlerToken, {
+          handle: async () => ({ data: "", found: true }),
+        })
+        .getResult()
+        .resolve(IEventBusToken);
+
+      await eventBus.invoke(TestCommandToken.create({ input: "first" }));
+      await eventBus.invoke(TestQueryToken.create({ id: "1" }));
+      await eventBus.invoke(TestCommandToken.create({ input: "second" }));
+
+      expect(log).toEqual([
+        "specific first",
+        "command first",
+        "specific second",
+        "command second",
+      ]);
+    });
+
+    it("should look up the middlewares of a token only once across dispatches", async () => {
+      let implementsReads = 0;
+
+      const commandToken =
+        createCommandDIToken<ICommand<TestCommandPayload, string>>().as(
+          "CountedCommand"
+        );
+      const { implements: implementedTokens, ...metadata } =
+        commandToken.metadata!;
+      // Counts the walks of the implements chain done to find the middlewares of the token
+      const CountedCommandToken = {
+        ...commandToken,
+        metadata: {
+          ...metadata,
+          get implements() {
+            implementsReads++;
+            return implementedTokens;
+          },
+        },
+      };
+
+      const CommandMiddlewareToken = createMiddlewareDIToken<
+        ICommand<TestCommandPayload, string>,
+        string
+      >().as("CommandMiddleware", { generics: [ICommandToken] });
+
+      const CountedCommandHandlerToken = createCommandHandlerDIToken<
+        ICommandHandler<ICommand<TestCommandPayload, string>>
+      >().as("CountedCommandHandler", { generics: [CountedCommandToken] });
+
+      const eventBus = buildDIContainer()
+        .register(MiddleWareOrderToken, [CommandMiddlewareToken])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(CommandMiddlewareToken, {
+          handle: async (command, next) => next(command),
+        })
+        .register(CountedCommandHandlerToken, {
+          handle: async (command) => command.payload.input,
+        })
+        .getResult()
+        .resolve(IEventBusToken);
+
+      const invoke = (input: string) =>
+        eventBus.invoke<ICommand<TestCommandPayload, string>>({
+          createdAt: new Date(),
+          token: CountedCommandToken,
+          payload: { input },
+        });
+
+      expect(await invoke("first")).toBe("first");
+      const readsAfterFirstDispatch = implementsReads;
+
+      expect(await invoke("second")).toBe("second");
+      expect(await invoke("third")).toBe("third");
+
+      expect(readsAfterFirstDispatch).toBeGreaterThan(0);
+      expect(implementsReads).toBe(readsAfterFirstDispatch);
+    });
+
     it("should execute INotification Middleware in order", async () => {
       const log: string[] = [];
       const middleware1Spy = vi.fn().mockImplementation(async (req, next) => {
@@ -441,7 +2750,10 @@ describe("EventBus", () => {
 
       expect(middleware1Spy).toHaveBeenCalled();
       expect(middleware2Spy).toHaveBeenCalled();
-      expect(handlerSpy).toHaveBeenCalledWith(notification);
+      expect(handlerSpy).toHaveBeenCalledWith(
+        notification,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
       expect(log).toEqual([
         "middleware1 before",
         "middleware2 before",
@@ -505,7 +2817,10 @@ describe("EventBus", () => {
 
       expect(middleware1Spy).toHaveBeenCalled();
       expect(middleware2Spy).toHaveBeenCalled();
-      expect(handlerSpy).toHaveBeenCalledWith(notification);
+      expect(handlerSpy).toHaveBeenCalledWith(
+        notification,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
       expect(log).toEqual([
         "middleware1 before",
         "middleware2 before",
@@ -636,6 +2951,374 @@ describe("EventBus", () => {
     });
   });
 
+  describe("Notification Handler Middlewares", () => {
+    const Handler1Token = createNotificationHandlerDIToken<
+      INotificationHandler<INotification<TestNotificationPayload>>
+    >().as("Handler1", {
+      generics: [TestNotificationToken],
+    });
+
+    const Handler2Token = createNotificationHandlerDIToken<
+      INotificationHandler<INotification<TestNotificationPayload>>
+    >().as("Handler2", {
+      generics: [TestNotificationToken],
+    });
+
+    const HandlerMiddlewareToken = createNotificationHandlerMiddlewareDIToken<
+      INotification<TestNotificationPayload>
+    >().as("HandlerMiddleware", {
+      generics: [INotificationToken],
+    });
+
+    const notification: INotification<TestNotificationPayload> = {
+      createdAt: new Date(),
+      token: TestNotificationToken,
+      payload: { message: "test" },
+    };
+
+    it.each(["parallel", "sequential", "besteffort"] as const)(
+      "should wrap each handler individually under the %s strategy",
+      async (strategy) => {
+        const log: string[] = [];
+
+        const container = buildDIContainer()
+          .register(MiddleWareOrderToken, [HandlerMiddlewareToken])
+          .registerFactory(IEventBusToken, EventBusFactory)
+          .register(HandlerMiddlewareToken, {
+            async handle(notification, handler, next) {
+              log.push(`before ${handler.key}`);
+              await next(notification);
+              log.push(`after ${handler.key}`);
+            },
+          })
+          .register(Handler1Token, { handle: async () => {} })
+          .register(Handler2Token, { handle: async () => {} })
+          .getResult();
+
+        const eventBus = container.resolve(IEventBusToken);
+        await eventBus.publish(notification, strategy);
+
+        expect(log).toHaveLength(4);
+        expect(log).toEqual(
+          expect.arrayContaining([
+            "before Handler1",
+            "after Handler1",
+            "before Handler2",
+            "after Handler2",
+          ])
+        );
+        expect(log.indexOf("before Handler1")).toBeLessThan(
+          log.indexOf("after Handler1")
+        );
+      }
+    );
+
+    it("should skip a handler when next is not called", async () => {
+      const handler1Spy = vi.fn();
+      const handler2Spy = vi.fn();
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [HandlerMiddlewareToken])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(HandlerMiddlewareToken, {
+          async handle(notification, handler, next) {
+            if (handler.key !== "Handler1") {
+              await next(notification);
+            }
+          },
+        })
+        .register(Handler1Token, { handle: handler1Spy })
+        .register(Handler2Token, { handle: handler2Spy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const result = await eventBus.publish(notification);
+
+      expect(handler1Spy).not.toHaveBeenCalled();
+      expect(handler2Spy).toHaveBeenCalledTimes(1);
+      expect(result.results).toEqual([
+        expect.objectContaining({ handlerKey: "Handler1", status: "skipped" }),
+        expect.objectContaining({
+          handlerKey: "Handler2",
+          status: "fulfilled",
+        }),
+      ]);
+    });
+
+    it("should order handler middlewares with the hooks of the other middlewares", async () => {
+      const log: string[] = [];
+
+      const PublishMiddlewareToken = createMiddlewareDIToken<
+        INotification<TestNotificationPayload>,
+        void
+      >().as("PublishMiddleware", {
+        generics: [INotificationToken],
+      });
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [
+          HandlerMiddlewareToken,
+          PublishMiddlewareToken,
+        ])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(HandlerMiddlewareToken, {
+          async handle(notification, handler, next) {
+            log.push("handler middleware");
+            await next(notification);
+          },
+        })
+        .register(PublishMiddlewareToken, {
+          async handle(notification, next) {
+            log.push("publish middleware");
+            return next(notification);
+          },
+          async handleNotificationHandler(notification, handler, next) {
+            log.push("publish middleware hook");
+            await next(notification);
+          },
+        })
+        .register(Handler1Token, {
+          handle: async () => {
+            log.push("handler");
+          },
+        })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      await eventBus.publish(notification);
+
+      expect(log).toEqual([
+        "publish middleware",
+        "handler middleware",
+        "publish middleware hook",
+        "handler",
+      ]);
+    });
+
+    it("should wrap the retries of a handler", async () => {
+      const middlewareSpy = vi.fn(async (notification, handler, next) => {
+        await next(notification);
+      });
+      const handlerSpy = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Transient"))
+        .mockResolvedValueOnce(undefined);
+
+      const RetriedHandlerToken = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("RetriedHandler", {
+        generics: [TestNotificationToken],
+        retryPolicy: { maxAttempts: 2 },
+      });
+
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [HandlerMiddlewareToken])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(HandlerMiddlewareToken, { handle: middlewareSpy })
+        .register(RetriedHandlerToken, { handle: handlerSpy })
+        .getResult();
+
+      const eventBus = container.resolve(IEventBusToken);
+      const result = await eventBus.publish(notification);
+
+      expect(middlewareSpy).toHaveBeenCalledTimes(1);
+      expect(handlerSpy).toHaveBeenCalledTimes(2);
+      expect(result.results[0]).toMatchObject({
+        status: "fulfilled",
+        attempts: 2,
+      });
+    });
+
+    it("should throw if a handler middleware is missing from the middleware order", () => {
+      const container = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(HandlerMiddlewareToken, {
+          handle: (notification, handler, next) => next(notification),
+        })
+        .getResult();
+
+      expect(() => container.resolve(IEventBusToken)).toThrow(
+        "Missing middlewares in middleware order: HandlerMiddleware"
+      );
+    });
+  });
+
+  describe("Wiring Validation", () => {
+    const OrphanNotificationToken = createNotificationDIToken<
+      INotification<TestNotificationPayload>
+    >().as("OrphanNotification", {
+      generics: [TestNotificationPayloadToken],
+    });
+
+    const UnreachableMiddlewareToken = createMiddlewareDIToken<
+      ICommand<TestCommandPayload, string>,
+      string
+    >().as("UnreachableMiddleware", {
+      generics: [createDIToken().as("UnknownMessage")],
+    });
+
+    const UnregisteredMiddlewareToken = createMiddlewareDIToken<
+      ICommand<TestCommandPayload, string>,
+      string
+    >().as("UnregisteredMiddleware", {
+      generics: [ICommandToken],
+    });
+
+    const createMiswiredContainer = (factory = EventBusFactory) =>
+      buildDIContainer()
+        .register(MiddleWareOrderToken, [
+          UnreachableMiddlewareToken,
+          UnregisteredMiddlewareToken,
+        ])
+        .registerFactory(IEventBusToken, factory)
+        .register(UnreachableMiddlewareToken, {
+          handle: async (command, next) => next(command),
+        })
+        .register(TestCommandToken, TestCommandToken.create({ input: "a" }))
+        .register(TestQueryToken, TestQueryToken.create({ id: "1" }))
+        .register(
+          OrphanNotificationToken,
+          OrphanNotificationToken.create({ message: "a" })
+        )
+        .register(
+          TestNotificationToken,
+          TestNotificationToken.create({ message: "a" })
+        )
+        .register(TestNotificationHandlerToken, { handle: async () => {} })
+        .register(TestQueryHandlerToken, {
+          handle: async () => ({ data: "", found: false }),
+        })
+        .getResult();
+
+    it("should report wiring problems", () => {
+      const eventBus = createMiswiredContainer().resolve(IEventBusToken);
+
+      expect(eventBus.validate()).toEqual({
+        valid: false,
+        unhandledRequests: ["TestCommand"],
+        orphanNotifications: ["OrphanNotification"],
+        unknownMiddlewares: ["UnregisteredMiddleware"],
+        unreachableMiddlewares: ["UnreachableMiddleware"],
+      });
+    });
+
+    it("should report a valid wiring", () => {
+      const eventBus = buildDIContainer()
+        .register(MiddleWareOrderToken, [])
+        .registerFactory(
+          IEventBusToken,
+          createEventBusFactory({ strict: true })
+        )
+        .register(TestCommandToken, TestCommandToken.create({ input: "a" }))
+        .register(TestCommandHandlerToken, {
+          handle: async (command) => command.payload.input,
+        })
+        .getResult()
+        .resolve(IEventBusToken);
+
+      expect(eventBus.validate()).toEqual({
+        valid: true,
+        unhandledRequests: [],
+        orphanNotifications: [],
+        unknownMiddlewares: [],
+        unreachableMiddlewares: [],
+      });
+    });
+
+    it("should throw the report when strict", () => {
+      const container = createMiswiredContainer(
+        createEventBusFactory({ strict: true })
+      );
+
+      let error: unknown;
+      try {
+        container.resolve(IEventBusToken);
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(EventBusValidationError);
+      expect(
+        (error as EventBusValidationError).report.unhandledRequests
+      ).toEqual(["TestCommand"]);
+      expect((error as Error).message).toBe(
+        "Invalid event bus wiring: Unhandled requests: TestCommand; " +
+          "Orphan notifications: OrphanNotification; " +
+          "Unknown middlewares in middleware order: UnregisteredMiddleware; " +
+          "Unreachable middlewares: UnreachableMiddleware"
+      );
+    });
+  });
+
+  describe("Introspection", () => {
+    it("should describe the routing table", () => {
+      const CommandMiddlewareToken = createMiddlewareDIToken<
+        ICommand<TestCommandPayload, string>,
+        string
+      >().as("CommandMiddleware", { generics: [ICommandToken] });
+
+      const NotificationMiddlewareToken = createMiddlewareDIToken<
+        INotification<TestNotificationPayload>,
+        void
+      >().as("NotificationMiddleware", { generics: [TestNotificationToken] });
+
+      const FirstHandlerToken = createNotificationHandlerDIToken<
+        INotificationHandler<INotification<TestNotificationPayload>>
+      >().as("FirstHandler", {
+        generics: [TestNotificationToken],
+        priority: 10,
+      });
+
+      const eventBus = buildDIContainer()
+        .register(MiddleWareOrderToken, [
+          NotificationMiddlewareToken,
+          CommandMiddlewareToken,
+        ])
+        .registerFactory(IEventBusToken, EventBusFactory)
+        .register(CommandMiddlewareToken, {
+          handle: async (command, next) => next(command),
+        })
+        .register(NotificationMiddlewareToken, {
+          handle: async (notification, next) => next(notification),
+        })
+        .register(TestNotificationHandlerToken, { handle: async () => {} })
+        .register(FirstHandlerToken, { handle: async () => {} })
+        .register(TestCommandHandlerToken, {
+          handle: async (command) => command.payload.input,
+        })
+        .register(TestQueryHandlerToken, {
+          handle: async () => ({ data: "", found: false }),
+        })
+        .getResult()
+        .resolve(IEventBusToken);
+
+      expect(eventBus.describe()).toEqual({
+        messages: [
+          {
+            key: "TestCommand",
+            kind: "command",
+            handlers: ["TestCommandHandler"],
+            middlewares: ["CommandMiddleware"],
+          },
+          {
+            key: "TestNotification",
+            kind: "notification",
+            handlers: ["FirstHandler", "TestNotificationHandler"],
+            middlewares: ["NotificationMiddleware"],
+          },
+          {
+            key: "TestQuery",
+            kind: "query",
+            handlers: ["TestQueryHandler"],
+            middlewares: [],
+          },
+        ],
+        middlewareOrder: ["NotificationMiddleware", "CommandMiddleware"],
+      });
+    });
+  });
+
   describe("Exceptions", () => {
     it("should throw error when notification handler is missing generics", () => {
       expect(() => {
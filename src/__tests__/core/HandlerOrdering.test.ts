@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { sortNotificationHandlers } from "../../core/HandlerOrdering.js";
+
+const createHandler = (key: string, metadata: Record<string, any> = {}) =>
+  ({ key, metadata } as any);
+
+const keysOf = (handlers: { key: string }[]) =>
+  handlers.map((handler) => handler.key);
+
+describe("sortNotificationHandlers", () => {
+  it("should keep registration order without constraints", () => {
+    const handlers = [createHandler("A"), createHandler("B")];
+
+    expect(keysOf(sortNotificationHandlers("Event", handlers))).toEqual([
+      "A",
+      "B",
+    ]);
+  });
+
+  it("should run handlers with a higher priority first", () => {
+    const handlers = [
+      createHandler("Low", { priority: -1 }),
+      createHandler("Default"),
+      createHandler("High", { priority: 10 }),
+    ];
+
+    expect(keysOf(sortNotificationHandlers("Event", handlers))).toEqual([
+      "High",
+      "Default",
+      "Low",
+    ]);
+  });
+
+  it("should honor before and after constraints over priorities", () => {
+    const persistence = createHandler("Persistence");
+    const audit = createHandler("Audit", {
+      priority: 10,
+      after: [persistence],
+    });
+    const validation = createHandler("Validation", { before: [persistence] });
+
+    expect(
+      keysOf(
+        sortNotificationHandlers("Event", [audit, persistence, validation])
+      )
+    ).toEqual(["Validation", "Persistence", "Audit"]);
+  });
+
+  it("should ignore constraints on handlers of other notifications", () => {
+    const handlers = [
+      createHandler("A", { after: [createHandler("Unknown")] }),
+      createHandler("B"),
+    ];
+
+    expect(keysOf(sortNotificationHandlers("Event", handlers))).toEqual([
+      "A",
+      "B",
+    ]);
+  });
+
+  it("should throw on cyclic constraints", () => {
+    const a = createHandler("A");
+    const b = createHandler("B", { after: [a] });
+    a.metadata.after = [b];
+
+    expect(() =>
+      sortNotificationHandlers("Event", [a, b, createHandler("C")])
+    ).toThrow(
+      "Notification handlers of Event have cyclic ordering constraints: A, B"
+    );
+  });
+});
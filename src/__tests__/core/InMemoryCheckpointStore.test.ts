@@ -0,0 +1,16 @@
+import { describe, it, expect } from "vitest";
+import { createInMemoryCheckpointStore } from "../../core/InMemoryCheckpointStore.js";
+
+describe("InMemoryCheckpointStore", () => {
+  it("should store the checkpoint of each projection", async () => {
+    const store = createInMemoryCheckpointStore();
+
+    expect(await store.get("orders")).toBe(0);
+
+    await store.set("orders", 3);
+    await store.set("users", 1);
+
+    expect(await store.get("orders")).toBe(3);
+    expect(await store.get("users")).toBe(1);
+  });
+});
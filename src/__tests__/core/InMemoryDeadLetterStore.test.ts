@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { createInMemoryDeadLetterStore } from "../../core/InMemoryDeadLetterStore.js";
+import { DeadLetter } from "../../core/IDeadLetterStore.js";
+
+const createDeadLetter = (
+  id: string,
+  notificationKey: string,
+  handlerKey: string
+): DeadLetter => ({
+  id,
+  notification: {
+    createdAt: new Date(),
+    token: { key: notificationKey } as any,
+    payload: {},
+  },
+  handlerKey,
+  error: new Error("failed"),
+  attempts: 1,
+  failedAt: new Date(),
+});
+
+describe("InMemoryDeadLetterStore", () => {
+  it("should store and retrieve dead letters", async () => {
+    const store = createInMemoryDeadLetterStore();
+    const deadLetter = createDeadLetter("1", "OrderPlaced", "Projection");
+
+    await store.add(deadLetter);
+
+    expect(await store.get("1")).toBe(deadLetter);
+    expect(await store.get("2")).toBeUndefined();
+  });
+
+  it("should evict the oldest dead letters once full", async () => {
+    const store = createInMemoryDeadLetterStore({ maxSize: 2 });
+    await store.add(createDeadLetter("1", "OrderPlaced", "Projection"));
+    await store.add(createDeadLetter("2", "OrderPlaced", "Email"));
+    await store.add(createDeadLetter("2", "OrderPlaced", "Email"));
+
+    expect((await store.list()).map((d) => d.id)).toEqual(["1", "2"]);
+
+    await store.add(createDeadLetter("3", "OrderShipped", "Projection"));
+
+    expect((await store.list()).map((d) => d.id)).toEqual(["2", "3"]);
+  });
+
+  it("should filter dead letters by notification and handler key", async () => {
+    const store = createInMemoryDeadLetterStore();
+    await store.add(createDeadLetter("1", "OrderPlaced", "Projection"));
+    await store.add(createDeadLetter("2", "OrderPlaced", "Email"));
+    await store.add(createDeadLetter("3", "OrderShipped", "Projection"));
+
+    expect(
+      (await store.list({ notificationKey: "OrderPlaced" })).map((d) => d.id)
+    ).toEqual(["1", "2"]);
+    expect(
+      (await store.list({ handlerKey: "Projection" })).map((d) => d.id)
+    ).toEqual(["1", "3"]);
+    expect(await store.list()).toHaveLength(3);
+  });
+
+  it("should replace dead letters with the same id and keep their position", async () => {
+    const store = createInMemoryDeadLetterStore();
+    await store.add(createDeadLetter("1", "OrderPlaced", "Projection"));
+    await store.add(createDeadLetter("2", "OrderPlaced", "Email"));
+    await store.add({
+      ...createDeadLetter("1", "OrderPlaced", "Projection"),
+      attempts: 4,
+    });
+
+    const deadLetters = await store.list();
+    expect(deadLetters.map((d) => [d.id, d.attempts])).toEqual([
+      ["1", 4],
+      ["2", 1],
+    ]);
+  });
+
+  it("should remove dead letters", async () => {
+    const store = createInMemoryDeadLetterStore();
+    await store.add(createDeadLetter("1", "OrderPlaced", "Projection"));
+
+    await store.remove("1");
+
+    expect(await store.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { createInMemoryEventStore } from "../../core/InMemoryEventStore.js";
+import { WrongExpectedVersionError } from "../../core/EventBusErrors.js";
+import { INotification } from "../../core/IEventBus.js";
+
+const createEvent = (key: string): INotification<any> => ({
+  createdAt: new Date(),
+  token: { key } as any,
+  payload: {},
+});
+
+describe("InMemoryEventStore", () => {
+  it("should record appended events with their version and position", async () => {
+    const store = createInMemoryEventStore();
+    const placed = createEvent("OrderPlaced");
+    const paid = createEvent("OrderPaid");
+    const registered = createEvent("UserRegistered");
+
+    await store.append("order-1", [placed, paid]);
+    const recorded = await store.append("user-1", [registered]);
+
+    expect(recorded).toEqual([
+      { streamId: "user-1", version: 1, position: 3, event: registered },
+    ]);
+    expect(await store.readStream("order-1")).toEqual([
+      { streamId: "order-1", version: 1, position: 1, event: placed },
+      { streamId: "order-1", version: 2, position: 2, event: paid },
+    ]);
+    expect(await store.readStream("order-2")).toEqual([]);
+  });
+
+  it("should read a stream after a version", async () => {
+    const store = createInMemoryEventStore();
+    const paid = createEvent("OrderPaid");
+
+    await store.append("order-1", [createEvent("OrderPlaced"), paid]);
+
+    expect(await store.readStream("order-1", 1)).toEqual([
+      { streamId: "order-1", version: 2, position: 2, event: paid },
+    ]);
+  });
+
+  it("should read every stream after a position, up to a limit", async () => {
+    const store = createInMemoryEventStore();
+
+    await store.append("order-1", [createEvent("OrderPlaced")]);
+    await store.append("user-1", [createEvent("UserRegistered")]);
+    await store.append("order-1", [createEvent("OrderPaid")]);
+
+    expect(
+      (await store.readAll()).map(({ position, streamId }) => [
+        position,
+        streamId,
+      ])
+    ).toEqual([
+      [1, "order-1"],
+      [2, "user-1"],
+      [3, "order-1"],
+    ]);
+    expect(
+      (await store.readAll(1, 1)).map(({ event }) => event.token.key)
+    ).toEqual(["UserRegistered"]);
+  });
+
+  it("should reject appends to a stream not at the expected version", async () => {
+    const store = createInMemoryEventStore();
+
+    await store.append("order-1", [createEvent("OrderPlaced")], 0);
+
+    await expect(
+      store.append("order-1", [createEvent("OrderPlaced")], 0)
+    ).rejects.toThrow(new WrongExpectedVersionError("order-1", 0, 1).message);
+    await expect(
+      store.append("order-1", [createEvent("OrderPaid")], 1)
+    ).resolves.toHaveLength(1);
+    expect(await store.readStream("order-1")).toHaveLength(2);
+  });
+});
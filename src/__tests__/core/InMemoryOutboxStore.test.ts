@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { createInMemoryOutboxStore } from "../../core/InMemoryOutboxStore.js";
+import { OutboxEntry } from "../../core/IOutboxStore.js";
+
+const createEntry = (message: string): OutboxEntry => ({
+  id: `message-${message}`,
+  envelope: {
+    type: "OrderPlaced",
+    version: 1,
+    payload: { message },
+    createdAt: new Date().toISOString(),
+  },
+  strategy: "besteffort",
+});
+
+describe("InMemoryOutboxStore", () => {
+  it("should list buffered entries per unit of work in publish order", async () => {
+    const store = createInMemoryOutboxStore();
+    const first = createEntry("first");
+    const second = createEntry("second");
+    const other = createEntry("other");
+
+    await store.add("uow-1", first);
+    await store.add("uow-2", other);
+    await store.add("uow-1", second);
+
+    expect(await store.list("uow-1")).toEqual([first, second]);
+    expect(await store.list("uow-2")).toEqual([other]);
+    expect(await store.list("uow-3")).toEqual([]);
+  });
+
+  it("should remove a dispatched entry only", async () => {
+    const store = createInMemoryOutboxStore();
+    const first = createEntry("first");
+    const second = createEntry("second");
+    await store.add("uow-1", first);
+    await store.add("uow-1", second);
+
+    await store.remove("uow-1", first.id);
+    expect(await store.list("uow-1")).toEqual([second]);
+
+    await store.remove("uow-1", second.id);
+    expect(await store.list("uow-1")).toEqual([]);
+  });
+
+  it("should clear the entries of a unit of work only", async () => {
+    const store = createInMemoryOutboxStore();
+    await store.add("uow-1", createEntry("first"));
+    await store.add("uow-2", createEntry("other"));
+
+    await store.clear("uow-1");
+
+    expect(await store.list("uow-1")).toEqual([]);
+    expect(await store.list("uow-2")).toHaveLength(1);
+  });
+});
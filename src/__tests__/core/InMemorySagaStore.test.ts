@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { createInMemorySagaStore } from "../../core/InMemorySagaStore.js";
+import { SagaInstance } from "../../core/ISaga.js";
+
+const createInstance = (
+  id: string,
+  sagaName: string,
+  correlationKey: string
+): SagaInstance => ({
+  id,
+  sagaName,
+  correlationKey,
+  state: {},
+  status: "running",
+  compensations: [],
+  timeouts: [],
+});
+
+describe("InMemorySagaStore", () => {
+  it("should find instances by saga and correlation key", async () => {
+    const store = createInMemorySagaStore();
+    const fulfillment = createInstance("1", "fulfillment", "order-1");
+    const refund = createInstance("2", "refund", "order-1");
+
+    await store.save(fulfillment);
+    await store.save(refund);
+
+    expect(await store.find("fulfillment", "order-1")).toBe(fulfillment);
+    expect(await store.find("refund", "order-1")).toBe(refund);
+    expect(await store.find("fulfillment", "order-2")).toBeUndefined();
+  });
+
+  it("should replace instances with the same id", async () => {
+    const store = createInMemorySagaStore();
+
+    await store.save(createInstance("1", "fulfillment", "order-1"));
+    await store.save({
+      ...createInstance("1", "fulfillment", "order-1"),
+      status: "completed",
+    });
+
+    expect(await store.list()).toEqual([
+      expect.objectContaining({ id: "1", status: "completed" }),
+    ]);
+  });
+
+  it("should list the instances of a saga", async () => {
+    const store = createInMemorySagaStore();
+    const fulfillment = createInstance("1", "fulfillment", "order-1");
+
+    await store.save(fulfillment);
+    await store.save(createInstance("2", "refund", "order-1"));
+
+    expect(await store.list("fulfillment")).toEqual([fulfillment]);
+    expect(await store.list()).toHaveLength(2);
+  });
+});
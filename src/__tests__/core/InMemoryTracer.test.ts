@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  createInMemoryTracer,
+  createNoopTracer,
+} from "../../core/InMemoryTracer.js";
+
+describe("InMemoryTracer", () => {
+  it("should record spans with their parent, attributes and status", () => {
+    const tracer = createInMemoryTracer();
+
+    const parent = tracer.startSpan("parent", { attributes: { a: 1 } });
+    const child = tracer.startSpan("child", { parent });
+    child.setAttribute("b", "value");
+    child.recordException(new Error("boom"));
+    child.setStatus("error");
+    child.end();
+
+    expect(tracer.spans).toHaveLength(2);
+    expect(tracer.spans[0]).toMatchObject({
+      name: "parent",
+      attributes: { a: 1 },
+      status: "unset",
+      ended: false,
+    });
+    expect(tracer.spans[1]).toMatchObject({
+      name: "child",
+      parentId: tracer.spans[0].id,
+      attributes: { b: "value" },
+      status: "error",
+      exceptions: [new Error("boom")],
+      ended: true,
+    });
+  });
+
+  it("should remove recorded spans on reset", () => {
+    const tracer = createInMemoryTracer();
+    tracer.startSpan("span");
+
+    tracer.reset();
+
+    expect(tracer.spans).toEqual([]);
+  });
+});
+
+describe("NoopTracer", () => {
+  it("should create spans that record nothing", () => {
+    const span = createNoopTracer().startSpan("span", {
+      attributes: { a: 1 },
+    });
+
+    expect(() => {
+      span.setAttribute("b", 2);
+      span.recordException(new Error("boom"));
+      span.setStatus("ok");
+      span.end();
+    }).not.toThrow();
+  });
+});
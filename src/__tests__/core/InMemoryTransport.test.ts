@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from "vitest";
+import { createInMemoryTransportPair } from "../../core/InMemoryTransport.js";
+import { MessageEnvelope } from "../../core/IMessageCodec.js";
+
+const message: MessageEnvelope = {
+  type: "OrderPlaced",
+  version: 1,
+  payload: { orderId: "42" },
+  createdAt: new Date(0).toISOString(),
+};
+
+describe("InMemoryTransport", () => {
+  it("should deliver a clone of sent messages to the other end only", async () => {
+    const [left, right] = createInMemoryTransportPair();
+    const leftReceive = vi.fn().mockResolvedValue(undefined);
+    const rightReceive = vi.fn().mockResolvedValue(undefined);
+    left.subscribe(leftReceive);
+    right.subscribe(rightReceive);
+
+    await left.send(message);
+    expect(rightReceive).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(rightReceive).toHaveBeenCalledTimes(1));
+    expect(rightReceive.mock.calls[0][0]).toEqual(message);
+    expect(rightReceive.mock.calls[0][0]).not.toBe(message);
+    expect(leftReceive).not.toHaveBeenCalled();
+  });
+
+  it("should stop delivering messages once unsubscribed", async () => {
+    const [left, right] = createInMemoryTransportPair();
+    const receive = vi.fn().mockResolvedValue(undefined);
+    const unsubscribe = right.subscribe(receive);
+
+    unsubscribe();
+    await left.send(message);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(receive).not.toHaveBeenCalled();
+  });
+});
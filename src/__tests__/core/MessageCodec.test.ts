@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { createMessageCodec } from "../../core/MessageCodec.js";
+
+const OrderPlacedToken = { key: "OrderPlaced" } as any;
+
+describe("MessageCodec", () => {
+  it("should round trip a message through a JSON envelope", () => {
+    const codec = createMessageCodec().register(OrderPlacedToken);
+    const message = {
+      token: OrderPlacedToken,
+      payload: { orderId: "42" },
+      createdAt: new Date("2024-01-01T00:00:00.000Z"),
+      metadata: { messageId: "message-1" },
+    };
+
+    const envelope = codec.encode(message);
+    expect(envelope).toEqual({
+      type: "OrderPlaced",
+      version: 1,
+      payload: { orderId: "42" },
+      createdAt: "2024-01-01T00:00:00.000Z",
+      metadata: { messageId: "message-1" },
+    });
+
+    const decoded = codec.decode(JSON.parse(JSON.stringify(envelope)));
+    expect(decoded).toEqual(message);
+    expect(decoded.token).toBe(OrderPlacedToken);
+  });
+
+  it("should convert payloads with the registered serializers", () => {
+    const codec = createMessageCodec().register(OrderPlacedToken, {
+      serialize: (payload) => ({ ...payload, at: payload.at.getTime() }),
+      deserialize: (data) => ({ ...data, at: new Date(data.at) }),
+    });
+    const payload = { orderId: "42", at: new Date(1000) };
+
+    const envelope = codec.encode({
+      token: OrderPlacedToken,
+      payload,
+      createdAt: new Date(),
+    });
+
+    expect(envelope.payload).toEqual({ orderId: "42", at: 1000 });
+    expect(codec.decode(envelope).payload).toEqual(payload);
+  });
+
+  it("should upcast payloads from older versions", () => {
+    const codec = createMessageCodec().register(OrderPlacedToken, {
+      version: 3,
+      upcasters: {
+        1: (payload) => ({ orderId: payload.id }),
+        2: (payload) => ({ ...payload, currency: "EUR" }),
+      },
+    });
+
+    const decoded = codec.decode({
+      type: "OrderPlaced",
+      version: 1,
+      payload: { id: "42" },
+      createdAt: new Date().toISOString(),
+    });
+
+    expect(decoded.payload).toEqual({ orderId: "42", currency: "EUR" });
+    expect(codec.encode({ ...decoded, payload: decoded.payload }).version).toBe(
+      3
+    );
+  });
+
+  it("should encode unregistered messages as version 1", () => {
+    const codec = createMessageCodec();
+
+    expect(codec.has("OrderPlaced")).toBe(false);
+    expect(
+      codec.encode({
+        token: OrderPlacedToken,
+        payload: { orderId: "42" },
+        createdAt: new Date(0),
+      })
+    ).toEqual({
+      type: "OrderPlaced",
+      version: 1,
+      payload: { orderId: "42" },
+      createdAt: new Date(0).toISOString(),
+    });
+  });
+
+  it("should reject envelopes it cannot decode", () => {
+    const codec = createMessageCodec().register(OrderPlacedToken, {
+      version: 2,
+    });
+    const envelope = {
+      type: "OrderPlaced",
+      version: 1,
+      payload: {},
+      createdAt: new Date().toISOString(),
+    };
+
+    expect(() => codec.decode({ ...envelope, type: "Unknown" })).toThrow(
+      "No codec registered for message type Unknown"
+    );
+    expect(() => codec.decode(envelope)).toThrow(
+      "Missing upcaster for message type OrderPlaced from version 1"
+    );
+    expect(() => codec.decode({ ...envelope, version: 3 })).toThrow(
+      "Message type OrderPlaced version 3 is newer than the current version 2"
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from "vitest";
+import { MessageChannel } from "node:worker_threads";
+import { createMessagePortTransport } from "../../core/MessagePortTransport.js";
+import { MessageEnvelope } from "../../core/IMessageCodec.js";
+
+const message: MessageEnvelope = {
+  type: "OrderPlaced",
+  version: 1,
+  payload: { orderId: "42" },
+  createdAt: new Date(0).toISOString(),
+  metadata: { messageId: "message-1" },
+};
+
+describe("MessagePortTransport", () => {
+  it("should exchange messages over a message channel", async () => {
+    const { port1, port2 } = new MessageChannel();
+    const receive = vi.fn().mockResolvedValue(undefined);
+    const unsubscribe = createMessagePortTransport(port2).subscribe(receive);
+
+    await createMessagePortTransport(port1).send(message);
+
+    await vi.waitFor(() => expect(receive).toHaveBeenCalledWith(message));
+    unsubscribe();
+    port1.close();
+  });
+
+  it("should ignore other messages posted on the port", async () => {
+    const { port1, port2 } = new MessageChannel();
+    const receive = vi.fn().mockResolvedValue(undefined);
+    const unsubscribe = createMessagePortTransport(port2).subscribe(receive);
+    const otherListener = vi.fn();
+    port2.on("message", otherListener);
+
+    port1.postMessage({ kind: "other" });
+
+    await vi.waitFor(() => expect(otherListener).toHaveBeenCalled());
+    expect(receive).not.toHaveBeenCalled();
+    unsubscribe();
+    port1.close();
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import {
+  isNotificationPattern,
+  matchesNotificationPattern,
+} from "../../core/NotificationPatterns.js";
+
+describe("NotificationPatterns", () => {
+  it("should tell patterns from plain keys", () => {
+    expect(isNotificationPattern("order.*")).toBe(true);
+    expect(isNotificationPattern("order.placed")).toBe(false);
+  });
+
+  it("should match a single segment with *", () => {
+    expect(matchesNotificationPattern("order.*", "order.placed")).toBe(true);
+    expect(matchesNotificationPattern("order.*", "order.line.added")).toBe(
+      false
+    );
+    expect(matchesNotificationPattern("order.*", "orders.placed")).toBe(false);
+    expect(matchesNotificationPattern("*.placed", "order.placed")).toBe(true);
+    expect(matchesNotificationPattern("order.p*", "order.paid")).toBe(true);
+  });
+
+  it("should match across segments with **", () => {
+    expect(matchesNotificationPattern("order.**", "order.line.added")).toBe(
+      true
+    );
+    expect(matchesNotificationPattern("**", "UserCreated")).toBe(true);
+  });
+
+  it("should match the other characters literally", () => {
+    expect(matchesNotificationPattern("order.*", "orderXplaced")).toBe(false);
+    expect(matchesNotificationPattern("(a|b).*", "(a|b).c")).toBe(true);
+    expect(matchesNotificationPattern("(a|b).*", "a.c")).toBe(false);
+  });
+});
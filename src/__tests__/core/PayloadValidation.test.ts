@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from "vitest";
+import { validatePayload } from "../../core/PayloadValidation.js";
+import { ValidationError } from "../../core/EventBusErrors.js";
+
+const createMessage = (payload: unknown, validate?: unknown) => ({
+  token: { key: "PlaceOrder", metadata: { validate } } as any,
+  payload,
+  createdAt: new Date(),
+});
+
+describe("validatePayload", () => {
+  it("should return the message as is without a validator", async () => {
+    const message = createMessage({ orderId: "42" });
+
+    expect(await validatePayload(message)).toBe(message);
+  });
+
+  it("should replace the payload with the validated value", async () => {
+    const validate = vi.fn(async (payload: any) => ({
+      value: { orderId: String(payload.orderId) },
+    }));
+    const message = createMessage({ orderId: 42 }, validate);
+
+    const validated = await validatePayload(message);
+
+    expect(validate).toHaveBeenCalledWith({ orderId: 42 });
+    expect(validated).toEqual({ ...message, payload: { orderId: "42" } });
+  });
+
+  it("should reject with the issues of an invalid payload", async () => {
+    const message = createMessage({}, () => ({
+      issues: [
+        { message: "Required", path: ["orderId"] },
+        { message: "Expected an array", path: [{ key: "lines" }, 0] },
+        { message: "Invalid order" },
+      ],
+    }));
+
+    const error = await validatePayload(message).catch((error) => error);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.tokenKey).toBe("PlaceOrder");
+    expect(error.issues).toHaveLength(3);
+    expect(error.message).toBe(
+      "Invalid payload for PlaceOrder: orderId: Required; lines.0: Expected an array; Invalid order"
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createProjectionRunner,
+  createRecordedEventSource,
+} from "../../core/ProjectionRunner.js";
+import { createInMemoryEventStore } from "../../core/InMemoryEventStore.js";
+import { createInMemoryCheckpointStore } from "../../core/InMemoryCheckpointStore.js";
+import { INotification } from "../../core/IEventBus.js";
+import { IProjection } from "../../core/IProjection.js";
+
+const OrderEventToken = { key: "OrderEvent" } as any;
+const OrderPlacedToken = {
+  key: "order.placed",
+  metadata: { implements: [OrderEventToken] },
+} as any;
+const OrderPaidToken = { key: "order.paid" } as any;
+const UserRegisteredToken = { key: "user.registered" } as any;
+
+const createEvent = (token: any, amount = 0): INotification<any> => ({
+  createdAt: new Date(),
+  token,
+  payload: { amount },
+});
+
+const createTotalsProjection = (
+  handles = [OrderEventToken, OrderPaidToken]
+) => {
+  const totals: string[] = [];
+  const projection: IProjection = {
+    name: "totals",
+    handles,
+    handle: vi.fn((event, recorded) => {
+      totals.push(`${recorded.position}:${event.token.key}`);
+    }),
+    reset: vi.fn(() => {
+      totals.length = 0;
+    }),
+  };
+
+  return { projection, totals };
+};
+
+describe("ProjectionRunner", () => {
+  it("should feed the handled events after the checkpoint", async () => {
+    const eventStore = createInMemoryEventStore();
+    const { projection, totals } = createTotalsProjection();
+    const runner = createProjectionRunner(projection, {
+      source: eventStore,
+      batchSize: 2,
+    });
+
+    await eventStore.append("order-1", [
+      createEvent(OrderPlacedToken),
+      createEvent(UserRegisteredToken),
+      createEvent(OrderPaidToken),
+    ]);
+
+    expect(await runner.run()).toBe(3);
+    expect(await runner.checkpoint()).toBe(3);
+
+    await eventStore.append("order-2", [createEvent(OrderPlacedToken)]);
+
+    expect(await runner.run()).toBe(1);
+    expect(totals).toEqual([
+      "1:order.placed",
+      "3:order.paid",
+      "4:order.placed",
+    ]);
+  });
+
+  it("should match handled tokens by pattern", async () => {
+    const { projection, totals } = createTotalsProjection([
+      { key: "order.*" } as any,
+    ]);
+    const runner = createProjectionRunner(projection, {
+      source: createRecordedEventSource([
+        createEvent(OrderPaidToken),
+        createEvent(UserRegisteredToken),
+      ]),
+    });
+
+    await runner.run();
+
+    expect(totals).toEqual(["1:order.paid"]);
+  });
+
+  it("should resume from the stored checkpoint", async () => {
+    const checkpointStore = createInMemoryCheckpointStore();
+    await checkpointStore.set("totals", 1);
+    const { projection, totals } = createTotalsProjection();
+
+    await createProjectionRunner(projection, {
+      source: createRecordedEventSource([
+        createEvent(OrderPlacedToken),
+        createEvent(OrderPaidToken),
+      ]),
+      checkpointStore,
+    }).run();
+
+    expect(totals).toEqual(["2:order.paid"]);
+  });
+
+  it("should rebuild the projection from the first event", async () => {
+    const { projection, totals } = createTotalsProjection();
+    const runner = createProjectionRunner(projection, {
+      source: createRecordedEventSource([
+        createEvent(OrderPlacedToken),
+        createEvent(OrderPaidToken),
+      ]),
+    });
+
+    await runner.run();
+    expect(await runner.rebuild()).toBe(2);
+
+    expect(projection.reset).toHaveBeenCalledTimes(1);
+    expect(totals).toEqual(["1:order.placed", "2:order.paid"]);
+  });
+
+  it("should share the rebuild with runs started during the reset", async () => {
+    const { projection, totals } = createTotalsProjection();
+    let resetDone!: () => void;
+    vi.mocked(projection.reset!).mockImplementation(
+      () =>
+        new Promise<void>((resolve) => {
+          resetDone = () => {
+            totals.length = 0;
+            resolve();
+          };
+        })
+    );
+    const runner = createProjectionRunner(projection, {
+      source: createRecordedEventSource([
+        createEvent(OrderPlacedToken),
+        createEvent(OrderPaidToken),
+      ]),
+    });
+    await runner.run();
+
+    const rebuild = runner.rebuild();
+    await vi.waitFor(() => expect(projection.reset).toHaveBeenCalled());
+    const run = runner.run();
+    resetDone();
+
+    expect(await Promise.all([rebuild, run])).toEqual([2, 2]);
+    expect(totals).toEqual(["1:order.placed", "2:order.paid"]);
+  });
+
+  it("should keep the checkpoint of the events handled before a failure", async () => {
+    const { projection } = createTotalsProjection();
+    vi.mocked(projection.handle).mockImplementation((event) => {
+      if (event.token === OrderPaidToken) {
+        throw new Error("Read model unavailable");
+      }
+    });
+    const runner = createProjectionRunner(projection, {
+      source: createRecordedEventSource([
+        createEvent(OrderPlacedToken),
+        createEvent(OrderPaidToken),
+      ]),
+    });
+
+    await expect(runner.run()).rejects.toThrow("Read model unavailable");
+    expect(await runner.checkpoint()).toBe(1);
+  });
+
+  it("should share a run in progress", async () => {
+    const { projection } = createTotalsProjection();
+    const runner = createProjectionRunner(projection, {
+      source: createRecordedEventSource([createEvent(OrderPlacedToken)]),
+    });
+
+    const [first, second] = await Promise.all([runner.run(), runner.run()]);
+
+    expect([first, second]).toEqual([1, 1]);
+    expect(projection.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject a batch size that is not an integer of at least 1", () => {
+    const { projection } = createTotalsProjection();
+    const source = createRecordedEventSource([]);
+
+    for (const batchSize of [0, -1, 1.5, Number.NaN]) {
+      expect(() =>
+        createProjectionRunner(projection, { source, batchSize })
+      ).toThrow(
+        `Batch size must be an integer of at least 1, got ${batchSize}`
+      );
+    }
+  });
+});
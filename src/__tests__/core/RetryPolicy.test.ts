@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from "vitest";
+import { getRetryDelay } from "../../core/RetryPolicy.js";
+
+describe("RetryPolicy", () => {
+  it("should grow the delay exponentially from the initial delay", () => {
+    const policy = { maxAttempts: 5, initialDelay: 100 };
+
+    expect(getRetryDelay(policy, 1)).toBe(100);
+    expect(getRetryDelay(policy, 2)).toBe(200);
+    expect(getRetryDelay(policy, 3)).toBe(400);
+  });
+
+  it("should use the configured multiplier and cap the delay at maxDelay", () => {
+    const policy = {
+      maxAttempts: 5,
+      initialDelay: 100,
+      multiplier: 3,
+      maxDelay: 500,
+    };
+
+    expect(getRetryDelay(policy, 2)).toBe(300);
+    expect(getRetryDelay(policy, 3)).toBe(500);
+  });
+
+  it("should randomize the delay when jitter is enabled", () => {
+    const randomSpy = vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect(
+      getRetryDelay({ maxAttempts: 3, initialDelay: 100, jitter: true }, 2)
+    ).toBe(100);
+
+    randomSpy.mockRestore();
+  });
+
+  it("should not wait when no initial delay is configured", () => {
+    expect(getRetryDelay({ maxAttempts: 3 }, 2)).toBe(0);
+  });
+});
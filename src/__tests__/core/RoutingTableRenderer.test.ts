@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  renderRoutingTableAsDot,
+  renderRoutingTableAsJson,
+  renderRoutingTableAsMermaid,
+} from "../../core/RoutingTableRenderer.js";
+import { RoutingTable } from "../../core/IRoutingTable.js";
+
+const table: RoutingTable = {
+  messages: [
+    {
+      key: "OrderPlaced",
+      kind: "notification",
+      handlers: ["ReserveStock", "SendReceipt"],
+      middlewares: ["Logging"],
+    },
+    {
+      key: 'Say"Hi"',
+      kind: "command",
+      handlers: [],
+      middlewares: [],
+    },
+  ],
+  middlewareOrder: ["Logging"],
+};
+
+describe("RoutingTableRenderer", () => {
+  it("should render the table as JSON", () => {
+    expect(JSON.parse(renderRoutingTableAsJson(table))).toEqual(table);
+    expect(renderRoutingTableAsJson(table, 0)).toBe(JSON.stringify(table));
+  });
+
+  it("should render the table as a Mermaid flowchart", () => {
+    expect(renderRoutingTableAsMermaid(table)).toBe(
+      [
+        "flowchart LR",
+        '  subgraph route_0["OrderPlaced (notification)"]',
+        '    route_0_message(["OrderPlaced"])',
+        '    route_0_middleware_0["Logging"]',
+        "    route_0_message --> route_0_middleware_0",
+        '    route_0_handler_0[["ReserveStock"]]',
+        "    route_0_middleware_0 -->|1| route_0_handler_0",
+        '    route_0_handler_1[["SendReceipt"]]',
+        "    route_0_middleware_0 -->|2| route_0_handler_1",
+        "  end",
+        '  subgraph route_1["Say#quot;Hi#quot; (command)"]',
+        '    route_1_message(["Say#quot;Hi#quot;"])',
+        "  end",
+      ].join("\n")
+    );
+  });
+
+  it("should render the table as a DOT digraph", () => {
+    expect(renderRoutingTableAsDot(table)).toBe(
+      [
+        "digraph EventBus {",
+        "  rankdir=LR;",
+        "  subgraph cluster_0 {",
+        '    label="OrderPlaced (notification)";',
+        '    route_0_message [label="OrderPlaced", shape=ellipse];',
+        '    route_0_middleware_0 [label="Logging", shape=box];',
+        "    route_0_message -> route_0_middleware_0;",
+        '    route_0_handler_0 [label="ReserveStock", shape=component];',
+        '    route_0_middleware_0 -> route_0_handler_0 [label="1"];',
+        '    route_0_handler_1 [label="SendReceipt", shape=component];',
+        '    route_0_middleware_0 -> route_0_handler_1 [label="2"];',
+        "  }",
+        "  subgraph cluster_1 {",
+        '    label="Say\\"Hi\\" (command)";',
+        '    route_1_message [label="Say\\"Hi\\"", shape=ellipse];',
+        "  }",
+        "}",
+      ].join("\n")
+    );
+  });
+});
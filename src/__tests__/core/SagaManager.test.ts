@@ -0,0 +1,358 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { buildDIContainer } from "@fioc/core";
+import { createSagaManager } from "../../core/SagaManager.js";
+import { createInMemorySagaStore } from "../../core/InMemorySagaStore.js";
+import {
+  createCommandDIToken,
+  createCommandHandlerDIToken,
+  createNotificationDIToken,
+  EventBusFactory,
+} from "../../core/EventBus.js";
+import {
+  ICommand,
+  ICommandHandler,
+  IEventBusToken,
+  INotification,
+  MiddleWareOrderToken,
+} from "../../core/IEventBus.js";
+import { SagaDefinition } from "../../core/ISaga.js";
+
+const OrderPlacedToken = { key: "OrderPlaced" } as any;
+const PaymentCompletedToken = { key: "PaymentCompleted" } as any;
+const PaymentTimedOutToken = { key: "PaymentTimedOut" } as any;
+const ChargePaymentToken = { key: "ChargePayment" } as any;
+const ReserveStockToken = { key: "ReserveStock" } as any;
+const ReleaseStockToken = { key: "ReleaseStock" } as any;
+const ShipOrderToken = { key: "ShipOrder" } as any;
+
+type OrderPayload = { orderId: string };
+type FulfillmentState = { orderId: string; paid: boolean };
+
+const message = (token: any, orderId: string) => ({
+  createdAt: new Date(),
+  token,
+  payload: { orderId },
+});
+
+const published = (token: any, orderId: string) =>
+  expect.objectContaining({ token, payload: { orderId } });
+
+const createEventBus = () => {
+  const subscribers = new Map<string, ((...args: any[]) => any)[]>();
+  const handlerContext = { messageId: "notification-1" };
+
+  return {
+    subscribe: vi.fn((token: any, subscriber: any) => {
+      subscribers.set(token.key, [
+        ...(subscribers.get(token.key) ?? []),
+        subscriber,
+      ]);
+      return () => {
+        subscribers.set(
+          token.key,
+          subscribers.get(token.key)!.filter((other) => other !== subscriber)
+        );
+      };
+    }),
+    publish: vi.fn(async (notification: INotification<any>) => {
+      for (const subscriber of subscribers.get(notification.token.key) ?? []) {
+        await subscriber(notification, handlerContext);
+      }
+    }),
+    invoke: vi.fn<
+      (request: ICommand<any, any>, options?: unknown) => Promise<void>
+    >(async () => {}),
+    handlerContext,
+  };
+};
+
+const fulfillment: SagaDefinition<FulfillmentState> = {
+  name: "fulfillment",
+  startedBy: [OrderPlacedToken],
+  initialState: (orderId) => ({ orderId, paid: false }),
+  steps: [
+    {
+      token: OrderPlacedToken,
+      correlate: (notification: INotification<OrderPayload>) =>
+        notification.payload.orderId,
+      handle: async (notification, saga) => {
+        await saga.invoke(message(ReserveStockToken, saga.state.orderId));
+        saga.compensateWith(message(ReleaseStockToken, saga.state.orderId));
+        await saga.invoke(message(ChargePaymentToken, saga.state.orderId));
+        saga.schedule(message(PaymentTimedOutToken, saga.state.orderId), 1000);
+      },
+    },
+    {
+      token: PaymentCompletedToken,
+      correlate: (notification: INotification<OrderPayload>) =>
+        notification.payload.orderId,
+      handle: async (_notification, saga) => {
+        await saga.invoke(message(ShipOrderToken, saga.state.orderId));
+        saga.complete();
+        return { ...saga.state, paid: true };
+      },
+    },
+    {
+      token: PaymentTimedOutToken,
+      correlate: (notification: INotification<OrderPayload>) =>
+        notification.payload.orderId,
+      handle: () => {
+        throw new Error("Payment timed out");
+      },
+    },
+  ],
+};
+
+const invokedKeys = (eventBus: ReturnType<typeof createEventBus>) =>
+  eventBus.invoke.mock.calls.map(([command]) => command.token.key);
+
+describe("SagaManager", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should start a saga and correlate the next notifications", async () => {
+    const eventBus = createEventBus();
+    const store = createInMemorySagaStore();
+    const manager = createSagaManager({
+      eventBus,
+      sagas: [fulfillment],
+      store,
+    });
+    await manager.start();
+
+    await eventBus.publish(message(PaymentCompletedToken, "order-0"));
+    await eventBus.publish(message(OrderPlacedToken, "order-1"));
+    await eventBus.publish(message(PaymentCompletedToken, "order-1"));
+
+    expect(invokedKeys(eventBus)).toEqual([
+      "ReserveStock",
+      "ChargePayment",
+      "ShipOrder",
+    ]);
+    expect(eventBus.invoke.mock.calls[0][1]).toEqual({
+      parent: eventBus.handlerContext,
+    });
+    expect(await store.find("fulfillment", "order-0")).toBeUndefined();
+    expect(await store.find("fulfillment", "order-1")).toMatchObject({
+      state: { orderId: "order-1", paid: true },
+      status: "completed",
+      timeouts: [],
+    });
+    manager.stop();
+  });
+
+  it("should publish scheduled notifications and compensate the failed saga", async () => {
+    vi.useFakeTimers();
+    const eventBus = createEventBus();
+    const store = createInMemorySagaStore();
+    const onTimeoutError = vi.fn();
+    const manager = createSagaManager({
+      eventBus,
+      sagas: [fulfillment],
+      store,
+      onTimeoutError,
+    });
+    await manager.start();
+
+    await eventBus.publish(message(OrderPlacedToken, "order-1"));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(eventBus.publish).toHaveBeenLastCalledWith(
+      published(PaymentTimedOutToken, "order-1")
+    );
+    expect(invokedKeys(eventBus)).toEqual([
+      "ReserveStock",
+      "ChargePayment",
+      "ReleaseStock",
+    ]);
+    expect(await store.find("fulfillment", "order-1")).toMatchObject({
+      status: "compensated",
+      error: new Error("Payment timed out"),
+    });
+    expect(onTimeoutError).toHaveBeenCalledWith(
+      new Error("Payment timed out"),
+      expect.objectContaining({ notification: expect.anything() })
+    );
+    manager.stop();
+  });
+
+  it("should publish scheduled notifications due beyond the longest timer delay", async () => {
+    vi.useFakeTimers();
+    const day = 24 * 60 * 60 * 1000;
+    const eventBus = createEventBus();
+    const manager = createSagaManager({
+      eventBus,
+      sagas: [
+        {
+          ...fulfillment,
+          steps: [
+            {
+              ...fulfillment.steps[0],
+              handle: async (_notification, saga) => {
+                saga.schedule(
+                  message(PaymentTimedOutToken, saga.state.orderId),
+                  30 * day
+                );
+              },
+            },
+          ],
+        },
+      ],
+    });
+    await manager.start();
+
+    await eventBus.publish(message(OrderPlacedToken, "order-1"));
+    await vi.advanceTimersByTimeAsync(25 * day);
+    expect(eventBus.publish).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(5 * day);
+    expect(eventBus.publish).toHaveBeenLastCalledWith(
+      published(PaymentTimedOutToken, "order-1")
+    );
+    manager.stop();
+  });
+
+  it("should cancel the timeouts of a completed saga", async () => {
+    vi.useFakeTimers();
+    const eventBus = createEventBus();
+    const manager = createSagaManager({ eventBus, sagas: [fulfillment] });
+    await manager.start();
+
+    await eventBus.publish(message(OrderPlacedToken, "order-1"));
+    await eventBus.publish(message(PaymentCompletedToken, "order-1"));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(eventBus.publish).toHaveBeenCalledTimes(2);
+    manager.stop();
+  });
+
+  it("should re-arm the timeouts of stored sagas on start", async () => {
+    vi.useFakeTimers();
+    const store = createInMemorySagaStore();
+    const firstBus = createEventBus();
+    const first = createSagaManager({
+      eventBus: firstBus,
+      sagas: [fulfillment],
+      store,
+    });
+    await first.start();
+    await firstBus.publish(message(OrderPlacedToken, "order-1"));
+    first.stop();
+
+    const secondBus = createEventBus();
+    await createSagaManager({
+      eventBus: secondBus,
+      sagas: [fulfillment],
+      store,
+    }).start();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(firstBus.publish).toHaveBeenCalledTimes(1);
+    expect(secondBus.publish).toHaveBeenCalledWith(
+      published(PaymentTimedOutToken, "order-1")
+    );
+  });
+
+  it("should mark the saga failed when a compensation fails", async () => {
+    const eventBus = createEventBus();
+    eventBus.invoke.mockImplementation(async (command) => {
+      if (command.token === ReleaseStockToken) {
+        throw new Error("Stock service down");
+      }
+    });
+    const store = createInMemorySagaStore();
+    const manager = createSagaManager({
+      eventBus,
+      sagas: [fulfillment],
+      store,
+    });
+    await manager.start();
+
+    await eventBus.publish(message(OrderPlacedToken, "order-1"));
+    await expect(
+      eventBus.publish(message(PaymentTimedOutToken, "order-1"))
+    ).rejects.toThrow("Payment timed out");
+
+    expect((await store.find("fulfillment", "order-1"))?.status).toBe("failed");
+    manager.stop();
+  });
+
+  it("should handle notifications published by the commands a step invokes on the event bus", async () => {
+    type Order = INotification<OrderPayload>;
+    type ChargePayment = ICommand<OrderPayload, void>;
+
+    const OrderPlaced =
+      createNotificationDIToken<Order>().as("SagaOrderPlaced");
+    const PaymentCompleted = createNotificationDIToken<Order>().as(
+      "SagaPaymentCompleted"
+    );
+    const ChargePayment =
+      createCommandDIToken<ChargePayment>().as("SagaChargePayment");
+    const ChargePaymentHandlerToken = createCommandHandlerDIToken<
+      ICommandHandler<ChargePayment>
+    >().as("SagaChargePaymentHandler", { generics: [ChargePayment] });
+
+    const container = buildDIContainer()
+      .register(MiddleWareOrderToken, [])
+      .registerFactory(IEventBusToken, EventBusFactory)
+      .register(ChargePaymentHandlerToken, {
+        handle: async (command, context) => {
+          await container
+            .resolve(IEventBusToken)
+            .publish(PaymentCompleted.create(command.payload), "parallel", {
+              parent: context,
+            });
+        },
+      })
+      .getResult();
+    const eventBus = container.resolve(IEventBusToken);
+
+    const store = createInMemorySagaStore();
+    const correlate = (notification: Order) => notification.payload.orderId;
+    const manager = createSagaManager({
+      eventBus,
+      store,
+      sagas: [
+        {
+          name: "payment",
+          startedBy: [OrderPlaced],
+          initialState: (orderId) => ({ orderId, paid: false }),
+          steps: [
+            {
+              token: OrderPlaced,
+              correlate,
+              handle: async (_notification, saga) => {
+                await saga.invoke(
+                  ChargePayment.create({ orderId: saga.state.orderId })
+                );
+              },
+            },
+            {
+              token: PaymentCompleted,
+              correlate,
+              handle: async (_notification, saga) => {
+                saga.complete();
+                return { ...saga.state, paid: true };
+              },
+            },
+          ],
+        },
+      ],
+    });
+    await manager.start();
+
+    await eventBus.publish(
+      OrderPlaced.create({ orderId: "order-1" }),
+      "parallel"
+    );
+
+    await vi.waitFor(async () =>
+      expect(await store.find("payment", "order-1")).toMatchObject({
+        state: { orderId: "order-1", paid: true },
+        status: "completed",
+      })
+    );
+    manager.stop();
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect } from "vitest";
+import { buildDIContainer, createDIToken } from "@fioc/core";
+import {
+  EventBusFactory,
+  createCommandDIToken,
+  createCommandHandlerDIToken,
+  createNotificationDIToken,
+  createNotificationHandlerDIToken,
+} from "../../core/EventBus.js";
+import {
+  ICommand,
+  ICommandHandler,
+  IEventBusToken,
+  INotification,
+  INotificationHandler,
+  MiddleWareOrderToken,
+} from "../../core/IEventBus.js";
+import { ITracerToken } from "../../core/ITracer.js";
+import { createInMemoryTracer } from "../../core/InMemoryTracer.js";
+import {
+  TracingMiddlewareFactory,
+  TracingMiddlewareToken,
+} from "../../core/TracingMiddleware.js";
+
+type OrderPayload = { orderId: string };
+
+const OrderPayloadToken = createDIToken<OrderPayload>().as("OrderPayload");
+
+const OrderPlacedToken = createNotificationDIToken<
+  INotification<OrderPayload>
+>().as("OrderPlaced", { generics: [OrderPayloadToken] });
+
+const PlaceOrderToken = createCommandDIToken<ICommand<OrderPayload, void>>().as(
+  "PlaceOrder",
+  { generics: [OrderPayloadToken] }
+);
+
+const SendEmailHandlerToken = createNotificationHandlerDIToken<
+  INotificationHandler<INotification<OrderPayload>>
+>().as("SendEmailHandler", { generics: [OrderPlacedToken] });
+
+const UpdateStockHandlerToken = createNotificationHandlerDIToken<
+  INotificationHandler<INotification<OrderPayload>>
+>().as("UpdateStockHandler", { generics: [OrderPlacedToken] });
+
+const PlaceOrderHandlerToken = createCommandHandlerDIToken<
+  ICommandHandler<ICommand<OrderPayload, void>>
+>().as("PlaceOrderHandler", { generics: [PlaceOrderToken] });
+
+const orderPlaced = (): INotification<OrderPayload> => ({
+  token: OrderPlacedToken,
+  payload: { orderId: "42" },
+  createdAt: new Date(),
+});
+
+const createTracedBus = (stockHandler: () => Promise<void>) => {
+  const tracer = createInMemoryTracer();
+
+  const container = buildDIContainer()
+    .register(ITracerToken, tracer)
+    .registerFactory(TracingMiddlewareToken, TracingMiddlewareFactory)
+    .register(MiddleWareOrderToken, [TracingMiddlewareToken])
+    .registerFactory(IEventBusToken, EventBusFactory)
+    .register(SendEmailHandlerToken, { handle: async () => {} })
+    .register(UpdateStockHandlerToken, { handle: stockHandler })
+    .register(PlaceOrderHandlerToken, {
+      handle: async (_command, context) => {
+        await container
+          .resolve(IEventBusToken)
+          .publish(orderPlaced(), "sequential", { parent: context });
+      },
+    })
+    .getResult();
+
+  return { tracer, eventBus: container.resolve(IEventBusToken) };
+};
+
+describe("TracingMiddleware", () => {
+  it("should start a span per publish with a child span per handler", async () => {
+    const { tracer, eventBus } = createTracedBus(async () => {});
+
+    await eventBus.publish(orderPlaced(), "parallel");
+
+    const [publishSpan, ...handlerSpans] = tracer.spans;
+    expect(publishSpan).toMatchObject({
+      name: "publish OrderPlaced",
+      status: "ok",
+      ended: true,
+      attributes: {
+        "messaging.operation": "publish",
+        "messaging.message.key": "OrderPlaced",
+        "messaging.strategy": "parallel",
+        "messaging.outcome": "success",
+      },
+    });
+    expect(handlerSpans.map((span) => span.name)).toEqual([
+      "handle SendEmailHandler",
+      "handle UpdateStockHandler",
+    ]);
+    for (const span of handlerSpans) {
+      expect(span).toMatchObject({
+        parentId: publishSpan.id,
+        status: "ok",
+        ended: true,
+        attributes: {
+          "messaging.message.key": "OrderPlaced",
+          "messaging.message.id":
+            publishSpan.attributes["messaging.message.id"],
+          "messaging.outcome": "success",
+        },
+      });
+    }
+  });
+
+  it("should record failed handlers on their span", async () => {
+    const error = new Error("Out of stock");
+    const { tracer, eventBus } = createTracedBus(async () => {
+      throw error;
+    });
+
+    await eventBus.publish(orderPlaced());
+
+    const publishSpan = tracer.spans.find(
+      (span) => span.name === "publish OrderPlaced"
+    )!;
+    const stockSpan = tracer.spans.find(
+      (span) => span.name === "handle UpdateStockHandler"
+    )!;
+    expect(publishSpan).toMatchObject({
+      status: "error",
+      attributes: {
+        "messaging.strategy": "besteffort",
+        "messaging.outcome": "error",
+      },
+    });
+    expect(stockSpan).toMatchObject({
+      status: "error",
+      exceptions: [error],
+      attributes: {
+        "messaging.handler.key": "UpdateStockHandler",
+        "messaging.outcome": "error",
+      },
+    });
+  });
+
+  it("should nest the spans of dispatches caused by a command", async () => {
+    const { tracer, eventBus } = createTracedBus(async () => {});
+
+    await eventBus.invoke({
+      token: PlaceOrderToken,
+      payload: { orderId: "42" },
+      createdAt: new Date(),
+    });
+
+    const invokeSpan = tracer.spans.find(
+      (span) => span.name === "invoke PlaceOrder"
+    )!;
+    const publishSpan = tracer.spans.find(
+      (span) => span.name === "publish OrderPlaced"
+    )!;
+    expect(invokeSpan.attributes).toMatchObject({
+      "messaging.operation": "invoke",
+      "messaging.outcome": "success",
+    });
+    expect(invokeSpan.attributes).not.toHaveProperty("messaging.strategy");
+    expect(publishSpan.parentId).toBe(invokeSpan.id);
+    expect(publishSpan.attributes["messaging.correlation_id"]).toBe(
+      invokeSpan.attributes["messaging.correlation_id"]
+    );
+  });
+
+  it("should keep the spans of concurrent dispatches of the same message apart", async () => {
+    const { tracer, eventBus } = createTracedBus(
+      () => new Promise((resolve) => setTimeout(resolve, 10))
+    );
+    const notification = {
+      ...orderPlaced(),
+      metadata: { messageId: "message-1" },
+    };
+
+    await Promise.all([
+      eventBus.publish(notification, "sequential"),
+      eventBus.publish(notification, "sequential"),
+    ]);
+
+    const publishSpans = tracer.spans.filter(
+      (span) => span.name === "publish OrderPlaced"
+    );
+    expect(publishSpans).toHaveLength(2);
+    for (const publishSpan of publishSpans) {
+      expect(
+        tracer.spans
+          .filter((span) => span.parentId === publishSpan.id)
+          .map((span) => span.name)
+      ).toEqual(["handle SendEmailHandler", "handle UpdateStockHandler"]);
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import type { INotification } from "./IEventBus.js";
+import {
+  Aggregate,
+  AggregateRepositoryOptions,
+  IAggregateRepository,
+} from "./IAggregateRepository.js";
+
+/**
+ * Creates a repository of event-sourced aggregates. Aggregates are rebuilt by applying the events
+ * of their stream to their initial state. New events are appended with an expected version, so that
+ * concurrent writers are detected, and published through the event bus once the append commits.
+ * Every event is published even when publishing another one rejects, since the append already committed.
+ *
+ * @param options - How to rebuild the aggregates, and where to append and publish their events
+ * @returns The aggregate repository
+ */
+export function createAggregateRepository<
+  S,
+  E extends INotification<any> = INotification<any>
+>(options: AggregateRepositoryOptions<S, E>): IAggregateRepository<S, E> {
+  const { eventStore, eventBus, strategy = "besteffort" } = options;
+
+  const applyEvents = (aggregate: Aggregate<S>, events: E[]): Aggregate<S> => ({
+    ...aggregate,
+    state: events.reduce(options.apply, aggregate.state),
+    version: aggregate.version + events.length,
+  });
+
+  const repository: IAggregateRepository<S, E> = {
+    async load(id) {
+      const recorded = await eventStore.readStream(id);
+
+      return applyEvents(
+        { id, state: options.initialState(id), version: 0 },
+        recorded.map(({ event }) => event as E)
+      );
+    },
+    async save(aggregate, events) {
+      if (!events.length) {
+        return aggregate;
+      }
+
+      await eventStore.append(aggregate.id, events, aggregate.version);
+
+      for (const event of events) {
+        try {
+          await eventBus.publish(event, strategy);
+        } catch (error) {
+          await Promise.resolve(options.onPublishError?.(error, event))
+            // A failing error callback must not hold back the other events
+            .catch(() => undefined);
+        }
+      }
+
+      return applyEvents(aggregate, events);
+    },
+    async execute(id, decide) {
+      const aggregate = await repository.load(id);
+
+      return repository.save(
+        aggregate,
+        await decide(aggregate.state, aggregate)
+      );
+    },
+  };
+
+  return repository;
+}
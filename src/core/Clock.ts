@@ -0,0 +1,38 @@
+/**
+ * Source of the current time, injectable so that tests control timestamps.
+ */
+export interface IClock {
+  /**
+   * @returns The current time
+   */
+  now: () => Date;
+}
+
+/**
+ * Clock reading the system time.
+ */
+export const systemClock: IClock = {
+  now: () => new Date(),
+};
+
+let messageClock: IClock = systemClock;
+
+/**
+ * Replaces the clock stamping the `createdAt` of the messages built by the `create` method of tokens.
+ *
+ * @param clock - The clock to use
+ * @returns A function restoring the previous clock
+ */
+export const setMessageClock = (clock: IClock) => {
+  const previous = messageClock;
+  messageClock = clock;
+
+  return () => {
+    messageClock = previous;
+  };
+};
+
+/**
+ * @returns The clock stamping the `createdAt` of the messages built by tokens
+ */
+export const getMessageClock = () => messageClock;
@@ -0,0 +1,51 @@
+/**
+ * Caps how many tasks run at once, queueing the others in call order.
+ */
+export interface ConcurrencyLimiter {
+  /**
+   * Runs a task as soon as fewer tasks than the limit are running.
+   * @param task - The task to run
+   * @returns The result of the task
+   */
+  run: <T>(task: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * Creates a concurrency limiter. Without a limit, tasks start immediately.
+ *
+ * @param limit - Maximum number of tasks running at once
+ * @returns A concurrency limiter
+ * @throws Error if the limit is lower than 1
+ */
+export const createConcurrencyLimiter = (
+  limit = Number.POSITIVE_INFINITY
+): ConcurrencyLimiter => {
+  if (!(limit >= 1)) {
+    throw new Error(`Concurrency limit must be at least 1, got ${limit}`);
+  }
+
+  let running = 0;
+  const waiting: (() => void)[] = [];
+
+  return {
+    async run(task) {
+      if (running < limit) {
+        running++;
+      } else {
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      }
+
+      try {
+        return await task();
+      } finally {
+        // Hand the slot over to the next waiting task, if any
+        const next = waiting.shift();
+        if (next) {
+          next();
+        } else {
+          running--;
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,60 @@
+import {
+  DispatchContext,
+  ICommand,
+  INotification,
+  IQuery,
+  MessageMetadata,
+} from "./IEventBus.js";
+import { generateId } from "./Identifiers.js";
+
+/**
+ * Creates the context of a dispatch from the metadata of its message,
+ * inheriting the correlation, user, tenant and items of the parent dispatch.
+ * The parent message becomes the cause of the dispatched message.
+ *
+ * @param message - The dispatched command, query or notification
+ * @param parent - The context of the dispatch causing this one, if any
+ * @returns The context of the dispatch
+ */
+export const createDispatchContext = (
+  message:
+    | ICommand<unknown, unknown>
+    | IQuery<unknown, unknown>
+    | INotification<unknown>,
+  parent?: DispatchContext
+): DispatchContext => {
+  const metadata = message.metadata ?? {};
+  const messageId = metadata.messageId ?? generateId();
+
+  return {
+    messageId,
+    correlationId: metadata.correlationId ?? parent?.correlationId ?? messageId,
+    causationId: metadata.causationId ?? parent?.messageId,
+    userId: metadata.userId ?? parent?.userId,
+    tenantId: metadata.tenantId ?? parent?.tenantId,
+    items: { ...parent?.items, ...metadata.items },
+  };
+};
+
+/**
+ * Converts a dispatch context into message metadata, so that a message
+ * dispatched later (e.g. from the outbox) keeps its place in the causal chain.
+ *
+ * @param context - The context of the dispatch
+ * @returns The equivalent message metadata
+ */
+export const toMessageMetadata = ({
+  messageId,
+  correlationId,
+  causationId,
+  userId,
+  tenantId,
+  items,
+}: DispatchContext): MessageMetadata => ({
+  messageId,
+  correlationId,
+  causationId,
+  userId,
+  tenantId,
+  items,
+});
@@ -0,0 +1,76 @@
+import { HandlerTimeoutError } from "./EventBusErrors.js";
+import { DispatchOptions } from "./IEventBus.js";
+
+/**
+ * Controls the cancellation of a single dispatch, combining the caller's
+ * abort signal and timeout into the signal handed to middlewares and handlers.
+ */
+export interface DispatchController {
+  /** Signal aborted when the caller's signal aborts or the timeout elapses */
+  signal: AbortSignal;
+  /**
+   * Runs the dispatch, rejecting with the abort reason as soon as the signal is aborted.
+   * @param execute - The function performing the dispatch
+   * @returns The result of the dispatch
+   */
+  run: <R>(execute: () => Promise<R>) => Promise<R>;
+}
+
+/**
+ * Creates the controller for a dispatch.
+ *
+ * @param tokenKey - Key of the token of the dispatched message
+ * @param options - The caller's dispatch options
+ * @returns A controller for the dispatch
+ */
+export function createDispatchController(
+  tokenKey: string,
+  options: DispatchOptions = {}
+): DispatchController {
+  const controller = new AbortController();
+  const { signal, timeout } = options;
+
+  const abortFromCaller = () => controller.abort(signal?.reason);
+  const timer =
+    timeout !== undefined
+      ? setTimeout(
+          () => controller.abort(new HandlerTimeoutError(tokenKey, timeout)),
+          timeout
+        )
+      : undefined;
+
+  const dispose = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abortFromCaller);
+  };
+
+  if (signal?.aborted) {
+    abortFromCaller();
+  } else {
+    signal?.addEventListener("abort", abortFromCaller, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    async run(execute) {
+      if (controller.signal.aborted) {
+        dispose();
+        throw controller.signal.reason;
+      }
+
+      const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener(
+          "abort",
+          () => reject(controller.signal.reason),
+          { once: true }
+        );
+      });
+
+      try {
+        return await Promise.race([execute(), aborted]);
+      } finally {
+        dispose();
+      }
+    },
+  };
+}
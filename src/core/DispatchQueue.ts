@@ -0,0 +1,108 @@
+import { QueueOptions } from "./IEventBus.js";
+import { QueueFullError } from "./EventBusErrors.js";
+
+/**
+ * In-process queue processing items in the background.
+ *
+ * @template T - The type of the queued items
+ */
+export interface DispatchQueue<T> {
+  /**
+   * Queues an item, waiting for room when the queue is full and blocks on overflow.
+   * @param item - The item to queue
+   * @throws QueueFullError if the queue is full and rejects on overflow
+   */
+  enqueue: (item: T) => Promise<void>;
+  /**
+   * Waits until every queued item has been processed.
+   */
+  drain: () => Promise<void>;
+  /**
+   * Stops accepting items, then waits until the queued ones have been processed.
+   */
+  shutdown: () => Promise<void>;
+}
+
+/**
+ * Creates a queue processing its items in order, with at most `concurrency` items at once.
+ *
+ * @template T - The type of the queued items
+ * @param process - Processes a queued item
+ * @param options - Concurrency, size and overflow behavior of the queue
+ * @param onError - Called when processing an item rejects
+ * @returns A dispatch queue
+ */
+export const createDispatchQueue = <T>(
+  process: (item: T) => Promise<unknown>,
+  options: Omit<QueueOptions, "onError"> = {},
+  onError?: (error: unknown, item: T) => void | Promise<void>
+): DispatchQueue<T> => {
+  const concurrency = options.concurrency ?? 1;
+  const maxSize = options.maxSize ?? Number.POSITIVE_INFINITY;
+
+  if (!(concurrency >= 1)) {
+    throw new Error(`Queue concurrency must be at least 1, got ${concurrency}`);
+  }
+
+  const items: T[] = [];
+  const waitingForRoom: (() => void)[] = [];
+  const waitingForIdle: (() => void)[] = [];
+  let processing = 0;
+  let closed = false;
+
+  const processNext = () => {
+    while (processing < concurrency && items.length) {
+      const item = items.shift()!;
+      waitingForRoom.shift()?.();
+      processing++;
+
+      process(item)
+        .catch((error) => onError?.(error, item))
+        // A failing error callback must not stop the queue
+        .catch(() => undefined)
+        .finally(() => {
+          processing--;
+          processNext();
+        });
+    }
+
+    if (!processing && !items.length) {
+      waitingForIdle.splice(0).forEach((resolve) => resolve());
+    }
+  };
+
+  const drain = () =>
+    !processing && !items.length
+      ? Promise.resolve()
+      : new Promise<void>((resolve) => waitingForIdle.push(resolve));
+
+  return {
+    async enqueue(item) {
+      for (;;) {
+        if (closed) {
+          throw new Error("Dispatch queue is shut down");
+        }
+
+        if (items.length < maxSize) {
+          break;
+        }
+
+        if (options.overflow !== "block") {
+          throw new QueueFullError(maxSize);
+        }
+
+        await new Promise<void>((resolve) => waitingForRoom.push(resolve));
+      }
+
+      items.push(item);
+      processNext();
+    },
+    drain,
+    async shutdown() {
+      closed = true;
+      // Blocked producers are rejected since the queue no longer accepts items
+      waitingForRoom.splice(0).forEach((resolve) => resolve());
+      await drain();
+    },
+  };
+};
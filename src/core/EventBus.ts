@@ -11,8 +11,17 @@ import {
   ICommandHandlerToken,
   ICommandToken,
   IEventBus,
+  EventBusOptions,
+  EventBusValidationReport,
+  IAsyncLocalStorage,
+  HandlerContext,
+  DispatchContext,
+  DispatchScopeFactory,
+  NotificationHandlerHook,
   IHandlerMiddleware,
   IHandlerMiddlewareToken,
+  INotificationHandlerMiddleware,
+  INotificationHandlerMiddlewareToken,
   INotification,
   INotificationHandler,
   INotificationHandlerToken,
@@ -21,8 +30,42 @@ import {
   IQueryHandler,
   IQueryHandlerToken,
   IQueryToken,
+  MessageDIToken,
+  MessageMetadata,
+  MessageTokenMetadata,
   MiddleWareOrderToken,
+  NotificationHandlerResult,
+  NotificationHandlerTokenMetadata,
+  NotificationSubscriber,
+  PublishOptions,
+  PublishResult,
+  PublishStrategy,
+  RequestHandlerTokenMetadata,
 } from "./IEventBus.js";
+import { IDeadLetterChannel } from "./IDeadLetterStore.js";
+import { MessageEnvelope } from "./IMessageCodec.js";
+import { OutboxEntry } from "./IOutboxStore.js";
+import { MessageKind, MessageRoute, RoutingTable } from "./IRoutingTable.js";
+import { createMessageCodec } from "./MessageCodec.js";
+import { validatePayload } from "./PayloadValidation.js";
+import { getMessageClock } from "./Clock.js";
+import { EventBusValidationError, PublishError } from "./EventBusErrors.js";
+import { delay, getRetryDelay } from "./RetryPolicy.js";
+import { createInMemoryDeadLetterStore } from "./InMemoryDeadLetterStore.js";
+import { createInMemoryOutboxStore } from "./InMemoryOutboxStore.js";
+import { generateId } from "./Identifiers.js";
+import { sortNotificationHandlers } from "./HandlerOrdering.js";
+import {
+  isNotificationPattern,
+  matchesNotificationPattern,
+} from "./NotificationPatterns.js";
+import {
+  ConcurrencyLimiter,
+  createConcurrencyLimiter,
+} from "./ConcurrencyLimiter.js";
+import { createDispatchQueue } from "./DispatchQueue.js";
+import { createDispatchController } from "./DispatchController.js";
+import { createDispatchContext, toMessageMetadata } from "./DispatchContext.js";
 
 /**
  * Internal state type for tracking notification handlers.
@@ -49,271 +92,1409 @@ type EventBusCommandsState<T = any> = {
 };
 
 /**
- * Factory function for creating event bus instances.
+ * Outbox unit of work buffering the notifications published while an invoke is in progress.
+ */
+type UnitOfWork = {
+  /** Id of the unit of work in the outbox store */
+  id: string;
+  /** Whether the invoke is in progress, resolved or rejected */
+  status: "open" | "committed" | "discarded";
+  /** Error the invoke rejected with */
+  error?: unknown;
+};
+
+/**
+ * Internal state tracked for the dispatch in progress through the async local storage.
+ */
+type DispatchScope = {
+  /** Outbox unit of work buffering the notifications of the dispatch */
+  unitOfWork?: UnitOfWork;
+  /** Context of the dispatch in progress, inherited by nested dispatches */
+  context?: DispatchContext;
+  /** Container of the scope of the dispatch in progress, shared with nested dispatches */
+  container?: DIContainer;
+  /** Whether the dispatch in progress runs within a notification handler holding a concurrency slot */
+  inHandlerSlot?: boolean;
+};
+
+/**
+ * A notification queued by `publishLater`, with the options it was published with.
+ */
+type QueuedNotification = {
+  notification: INotification<any>;
+  strategy: PublishStrategy;
+  options?: PublishOptions;
+};
+
+/**
+ * Internal state shared by the handlers of a single publish.
+ */
+type NotificationExecution = {
+  /** The notification being published */
+  notification: INotification<any>;
+  /** The context of the publish passed to each handler */
+  context: HandlerContext;
+  /** Hooks wrapping each notification handler, in execution order */
+  handlerHooks: NotificationHandlerHook<any>[];
+  /** Limits how many handlers of the publish run at once */
+  limiter: ConcurrencyLimiter;
+  /** Container of the scope of the publish, resolving its handlers */
+  container: DIContainer;
+  /**
+   * Whether the publish is nested in a notification handler holding a concurrency slot,
+   * in which case its handlers run without waiting for a slot of their own
+   */
+  nested: boolean;
+};
+
+/**
+ * A middleware of a compiled pipeline.
+ */
+type CompiledMiddleware = {
+  /** The middleware token, resolved from the container on every dispatch */
+  token: DIToken<any>;
+  /** Whether the middleware is a notification handler middleware wrapping each handler */
+  wrapsHandlers: boolean;
+};
+
+/**
+ * Creates a factory function for event bus instances configured with the given options.
  * Uses FIoC dependency injection to create an event bus with configured handlers and middlewares.
  *
  * This factory analyzes the container to discover all registered handlers and middlewares,
  * then creates an event bus instance that can route notifications and commands appropriately.
  *
+ * @param options - Options applied to every event bus created by the factory
  * @returns A DIFactory for IEventBus instance ready for registration
  */
-export const EventBusFactory = withDependencies(
-  DIContainer,
-  MiddleWareOrderToken
-).defineFactory(
-  (
-    container: DIContainer,
-    middlewareOrder: DIToken<IHandlerMiddleware<any, any>>[]
-  ): IEventBus => {
-    const tokensNotificationHandlers = container.findImplementationTokens(
-      INotificationHandlerToken
-    );
-
-    const tokensRequestsHandlers = [
-      ...container.findImplementationTokens(ICommandHandlerToken),
-      ...container.findImplementationTokens(IQueryHandlerToken),
-    ];
-
-    const tokensMiddlewares = container.findImplementationTokens(
-      IHandlerMiddlewareToken
-    );
-
-    if (tokensMiddlewares.length > middlewareOrder.length) {
-      throw new Error(
-        "Missing middlewares in middleware order: " +
-          tokensMiddlewares
-            .filter((token) => middlewareOrder.indexOf(token) === -1)
-            .map((token) => token.key)
-            .join(", ")
-      );
-    }
-
-    const notificationsState: EventBusNotificationsState = {};
-    tokensNotificationHandlers.forEach((token) => {
-      if (!token.metadata?.generics?.[0]) {
+export function createEventBusFactory(options: EventBusOptions = {}) {
+  return withDependencies(DIContainer, MiddleWareOrderToken).defineFactory(
+    (
+      container: DIContainer,
+      middlewareOrder: DIToken<
+        IHandlerMiddleware<any, any> | INotificationHandlerMiddleware<any>
+      >[]
+    ): IEventBus => {
+      if (options.outbox && !options.asyncLocalStorage) {
         throw new Error(
-          `Notification handler ${token.key} is missing Notification generic`
+          "Outbox requires an asyncLocalStorage to track invokes in progress"
         );
       }
 
-      token.metadata?.generics?.forEach((notificationToken) => {
-        notificationsState[notificationToken.key] ??= [];
-        notificationsState[notificationToken.key].push(token);
-      });
-    });
+      const tokensNotificationHandlers = container.findImplementationTokens(
+        INotificationHandlerToken
+      );
 
-    const requestsState: EventBusCommandsState = {};
-    tokensRequestsHandlers.forEach((token) => {
-      const commandToken = token.metadata?.generics?.[0];
-      if (!commandToken) {
-        throw new Error(
-          `Request handler ${token.key} is missing generic Token`
-        );
-      }
+      const tokensQueryHandlers =
+        container.findImplementationTokens(IQueryHandlerToken);
+
+      const tokensRequestsHandlers = [
+        ...container.findImplementationTokens(ICommandHandlerToken),
+        ...tokensQueryHandlers,
+      ];
+
+      const tokensMiddlewares = container.findImplementationTokens(
+        IHandlerMiddlewareToken
+      );
+
+      const tokensNotificationHandlerMiddlewares =
+        container.findImplementationTokens(INotificationHandlerMiddlewareToken);
 
-      if (requestsState[commandToken.key]) {
+      const tokensUnorderedMiddlewares = [
+        ...tokensMiddlewares,
+        ...tokensNotificationHandlerMiddlewares,
+      ].filter((token) => middlewareOrder.indexOf(token) === -1);
+
+      if (tokensUnorderedMiddlewares.length) {
         throw new Error(
-          `Request handler ${token.key} is already registered for Token ${commandToken.key}`
+          "Missing middlewares in middleware order: " +
+            tokensUnorderedMiddlewares.map((token) => token.key).join(", ")
         );
       }
-      requestsState[commandToken.key] = token;
-    });
 
-    const middlewareState: EventBusNotificationsState = {};
-    tokensMiddlewares.forEach((token) => {
-      if (!token.metadata?.generics?.[0]) {
-        throw new Error(`Middleware token ${token.key} is missing generics`);
-      }
+      const notificationsState: EventBusNotificationsState = {};
+      const notificationTokens: Record<string, DIToken<any>> = {};
+      tokensNotificationHandlers.forEach((token) => {
+        if (!token.metadata?.generics?.[0]) {
+          throw new Error(
+            `Notification handler ${token.key} is missing Notification generic`
+          );
+        }
 
-      token.metadata?.generics?.forEach((genericToken) => {
-        middlewareState[genericToken.key] ??= [];
-        middlewareState[genericToken.key].push(token);
+        token.metadata?.generics?.forEach((notificationToken) => {
+          notificationsState[notificationToken.key] ??= [];
+          notificationsState[notificationToken.key].push(token);
+          notificationTokens[notificationToken.key] = notificationToken;
+        });
       });
-    });
 
-    /**
-     * Finds all middlewares applicable to a token by traversing its inheritance hierarchy.
-     * First checks for middlewares registered for the specific token, then traverses up
-     * the implements chain to find more general middlewares.
-     *
-     * @param token - The token to find middlewares for
-     * @returns An array of middleware tokens applicable to the token
-     */
-    const findMiddlewaresForToken = (token: DIToken<any>) => {
-      let middlewares = [...(middlewareState[token.key] ?? [])];
+      Object.keys(notificationsState).forEach((notificationKey) => {
+        notificationsState[notificationKey] = sortNotificationHandlers(
+          notificationKey,
+          notificationsState[notificationKey]
+        );
+      });
 
-      if (!token.metadata?.implements?.length) {
-        return middlewares;
-      }
+      const requestsState: EventBusCommandsState = {};
+      const requestTokens: Record<string, DIToken<any>> = {};
+      tokensRequestsHandlers.forEach((token) => {
+        const commandToken = token.metadata?.generics?.[0];
+        if (!commandToken) {
+          throw new Error(
+            `Request handler ${token.key} is missing generic Token`
+          );
+        }
 
-      token.metadata.implements.forEach((impToken) => {
-        middlewares = [...middlewares, ...findMiddlewaresForToken(impToken)];
+        if (requestsState[commandToken.key]) {
+          throw new Error(
+            `Request handler ${token.key} is already registered for Token ${commandToken.key}`
+          );
+        }
+        requestsState[commandToken.key] = token;
+        requestTokens[commandToken.key] = commandToken;
       });
 
-      return Array.from(new Set(middlewares));
-    };
+      const middlewareState: EventBusNotificationsState = {};
+      [...tokensMiddlewares, ...tokensNotificationHandlerMiddlewares].forEach(
+        (token) => {
+          if (!token.metadata?.generics?.[0]) {
+            throw new Error(
+              `Middleware token ${token.key} is missing generics`
+            );
+          }
 
-    /**
-     * Creates a middleware pipeline by ordering middlewares according to the configured order
-     * and chaining them together using reduceRight.
-     *
-     * @param middlewares - Array of middleware tokens to include in the pipeline
-     * @param executeHandler - The final handler function to execute after all middlewares
-     * @returns A function that represents the complete middleware pipeline
-     */
-    const createMiddlewarePipeline = (
-      middlewares: DIToken<IHandlerMiddleware<any, any>>[],
-      executeHandler: (request: unknown) => Promise<any>
-    ) => {
-      const orderedMiddlewares = middlewares.length
-        ? middlewareOrder.filter((token) => middlewares.includes(token))
-        : [];
-
-      const resolvedMiddlewares = orderedMiddlewares.map((token) =>
-        container.resolve(token)
+          token.metadata?.generics?.forEach((genericToken) => {
+            middlewareState[genericToken.key] ??= [];
+            middlewareState[genericToken.key].push(token);
+          });
+        }
       );
 
-      return resolvedMiddlewares.reduceRight((next, middleware) => {
-        return (request: unknown) => middleware.handle(request, next);
-      }, executeHandler);
-    };
+      const matchedHandlers = new Map<string, DIToken<any>[]>();
 
-    /**
-     * Executes all notification handlers sequentially for the given handlers array with the provided notification.
-     *
-     * @param handlers - Array of handler tokens to execute, or undefined if no handlers
-     * @param notification - The notification to pass to each notification handler
-     */
-    const executeNotificationHandlersSequentially = async (
-      handlers: DIToken<any>[] | undefined,
-      notification: unknown
-    ) => {
-      if (handlers !== undefined) {
-        for (const handler of handlers) {
-          await container
-            .resolve(handler as DIToken<INotificationHandler<any>>)
-            .handle(notification);
+      /**
+       * Finds all handlers of a notification: the handlers of its token, of every token it implements,
+       * and of every pattern matching its key, in execution order. The result is cached per token key
+       * until the notifications state changes.
+       *
+       * @param token - The token of the notification
+       * @returns The handler tokens of the notification, in execution order
+       */
+      const findHandlersForToken = (token: DIToken<any>) => {
+        let handlers = matchedHandlers.get(token.key);
+
+        if (!handlers) {
+          const matched = new Set<DIToken<any>>();
+          const addHandlersOf = (current: DIToken<any>) => {
+            notificationsState[current.key]?.forEach((handler) =>
+              matched.add(handler)
+            );
+            current.metadata?.implements?.forEach(addHandlersOf);
+          };
+
+          addHandlersOf(token);
+          Object.keys(notificationsState)
+            .filter(
+              (key) =>
+                isNotificationPattern(key) &&
+                matchesNotificationPattern(key, token.key)
+            )
+            .forEach((key) =>
+              notificationsState[key].forEach((handler) => matched.add(handler))
+            );
+
+          handlers = sortNotificationHandlers(token.key, [...matched]);
+          matchedHandlers.set(token.key, handlers);
         }
-      }
-    };
 
-    /**
-     * Executes all notification handlers in parallel for the given handlers array with the provided notification.
-     *
-     * @param handlers - Array of handler tokens to execute, or undefined if no handlers
-     * @param notification - The notification to pass to each notification handler
-     */
-    const executeNotificationHandlersInParallel = async (
-      handlers: DIToken<any>[] | undefined,
-      notification: unknown
-    ) => {
-      if (handlers !== undefined) {
-        await Promise.all(
-          handlers.map(
-            async (handler) =>
-              await container
-                .resolve(handler as DIToken<INotificationHandler<any>>)
-                .handle(notification)
+        return handlers;
+      };
+
+      // Ordering cycles between the handlers of a token and those of the tokens it implements
+      // or the patterns it matches throw when creating the event bus rather than when publishing
+      Object.values(notificationTokens).forEach(findHandlersForToken);
+
+      /**
+       * Finds all middlewares applicable to a token by traversing its inheritance hierarchy.
+       * First checks for middlewares registered for the specific token, then traverses up
+       * the implements chain to find more general middlewares.
+       *
+       * @param token - The token to find middlewares for
+       * @returns An array of middleware tokens applicable to the token
+       */
+      const findMiddlewaresForToken = (token: DIToken<any>) => {
+        let middlewares = [...(middlewareState[token.key] ?? [])];
+
+        if (!token.metadata?.implements?.length) {
+          return middlewares;
+        }
+
+        token.metadata.implements.forEach((impToken) => {
+          middlewares = [...middlewares, ...findMiddlewaresForToken(impToken)];
+        });
+
+        return Array.from(new Set(middlewares));
+      };
+
+      /**
+       * Orders the given middlewares according to the configured order.
+       *
+       * @param middlewares - Array of middleware tokens to order
+       * @returns The middleware tokens in execution order
+       */
+      const orderMiddlewares = (middlewares: DIToken<any>[]) => {
+        const applicable = new Set(middlewares);
+        return applicable.size
+          ? middlewareOrder.filter((token) => applicable.has(token))
+          : [];
+      };
+
+      const compiledPipelines = new Map<string, CompiledMiddleware[]>();
+
+      /**
+       * Compiles the pipeline of a message token once: its applicable middlewares, found through
+       * its inheritance hierarchy, in execution order. The compiled pipeline is cached per token key.
+       *
+       * @param token - The token of the message
+       * @returns The middlewares of the pipeline, in execution order
+       */
+      const compilePipeline = (token: DIToken<any>) => {
+        let pipeline = compiledPipelines.get(token.key);
+
+        if (!pipeline) {
+          pipeline = orderMiddlewares(findMiddlewaresForToken(token)).map(
+            (middleware) => ({
+              token: middleware,
+              wrapsHandlers:
+                tokensNotificationHandlerMiddlewares.includes(middleware),
+            })
+          );
+          compiledPipelines.set(token.key, pipeline);
+        }
+
+        return pipeline;
+      };
+
+      /**
+       * Resolves the middlewares of the compiled pipeline of a message token from the container of the dispatch.
+       * Middlewares are resolved on every dispatch so the container keeps applying their lifetime.
+       * Notification handler middlewares, and the `handleNotificationHandler` hooks of the other
+       * middlewares, are collected apart as the hooks wrapping each notification handler.
+       *
+       * @param token - The token of the message
+       * @param scopeContainer - The container of the scope of the dispatch
+       * @returns The resolved middlewares and the hooks wrapping each handler, both in execution order
+       */
+      const resolveMiddlewares = (
+        token: DIToken<any>,
+        scopeContainer: DIContainer
+      ) => {
+        const resolved: IHandlerMiddleware<any, any>[] = [];
+        const handlerHooks: NotificationHandlerHook<any>[] = [];
+
+        compilePipeline(token).forEach(
+          ({ token: middlewareToken, wrapsHandlers }) => {
+            if (wrapsHandlers) {
+              const middleware = scopeContainer.resolve(
+                middlewareToken as DIToken<INotificationHandlerMiddleware<any>>
+              );
+              handlerHooks.push(middleware.handle.bind(middleware));
+              return;
+            }
+
+            const middleware = scopeContainer.resolve(
+              middlewareToken as DIToken<IHandlerMiddleware<any, any>>
+            );
+            resolved.push(middleware);
+
+            if (middleware.handleNotificationHandler) {
+              handlerHooks.push(
+                middleware.handleNotificationHandler.bind(middleware)
+              );
+            }
+          }
+        );
+
+        return { middlewares: resolved, handlerHooks };
+      };
+
+      /**
+       * Creates a middleware pipeline by chaining the resolved middlewares together using reduceRight.
+       *
+       * @param resolvedMiddlewares - The resolved middlewares in execution order
+       * @param context - The context of the dispatch passed to every middleware
+       * @param executeHandler - The final handler function to execute after all middlewares
+       * @returns A function that represents the complete middleware pipeline
+       */
+      const createMiddlewarePipeline = (
+        resolvedMiddlewares: IHandlerMiddleware<any, any>[],
+        context: HandlerContext,
+        executeHandler: (request: unknown) => Promise<any>
+      ) => {
+        return resolvedMiddlewares.reduceRight((next, middleware) => {
+          return (request: unknown) =>
+            middleware.handle(request, next, context);
+        }, executeHandler);
+      };
+
+      /**
+       * Runs a single notification handler, retrying it according to its retry policy,
+       * wrapped by the notification handler hooks of the publish middlewares.
+       * Errors thrown by the handler are captured in the result instead of being rethrown.
+       * No retry is attempted once the dispatch is aborted.
+       *
+       * @param handler - The handler token to execute
+       * @param execution - The notification being published and its context
+       * @returns The outcome of the handler execution
+       */
+      const runNotificationHandler = async (
+        handler: DIToken<any>,
+        {
+          notification,
+          context,
+          handlerHooks,
+          container: scopeContainer,
+        }: NotificationExecution
+      ): Promise<NotificationHandlerResult> => {
+        const retryPolicy =
+          (
+            handler.metadata as
+              | NotificationHandlerTokenMetadata<any>
+              | undefined
+          )?.retryPolicy ?? options.retryPolicy;
+        const maxAttempts = Math.max(1, retryPolicy?.maxAttempts ?? 1);
+        const startedAt = Date.now();
+        let attempts = 0;
+
+        const invokeHandler = async (notification: unknown) => {
+          for (;;) {
+            attempts++;
+
+            try {
+              return await (
+                subscribedHandlers.get(handler) ??
+                scopeContainer.resolve(
+                  handler as DIToken<INotificationHandler<any>>
+                )
+              ).handle(notification, context);
+            } catch (thrown) {
+              const error = toError(thrown);
+              const shouldRetry =
+                attempts < maxAttempts &&
+                !context.signal.aborted &&
+                (retryPolicy?.retryIf?.(error, attempts) ?? true);
+
+              if (shouldRetry) {
+                await delay(
+                  getRetryDelay(retryPolicy!, attempts),
+                  context.signal
+                );
+              }
+
+              if (!shouldRetry || context.signal.aborted) {
+                throw error;
+              }
+            }
+          }
+        };
+
+        const pipeline = handlerHooks.reduceRight<
+          (notification: unknown) => Promise<void>
+        >(
+          (next, hook) => (notification) =>
+            hook(notification, handler, next, context),
+          invokeHandler
+        );
+
+        try {
+          await pipeline(notification);
+
+          return {
+            handlerKey: handler.key,
+            // A hook that resolved without calling next skipped the handler
+            status: attempts ? "fulfilled" : "skipped",
+            attempts,
+            duration: Date.now() - startedAt,
+          };
+        } catch (error) {
+          return {
+            handlerKey: handler.key,
+            status: "rejected",
+            error: toError(error),
+            attempts,
+            duration: Date.now() - startedAt,
+          };
+        }
+      };
+
+      /**
+       * Executes a single notification handler, waiting for a slot of the global limiter
+       * unless the publish is nested in a handler already holding one.
+       *
+       * @param handler - The handler token to execute
+       * @param execution - The notification being published and its context
+       * @returns The outcome of the handler execution
+       */
+      const executeNotificationHandler = async (
+        handler: DIToken<any>,
+        execution: NotificationExecution
+      ) => {
+        const run = () =>
+          runInHandlerSlot(execution.context, () =>
+            runNotificationHandler(handler, execution)
+          );
+
+        return await (execution.nested ? run() : handlersLimiter.run(run));
+      };
+
+      /**
+       * Records the failure of a handler the publish does not reject with as a dead letter,
+       * so that it is not lost. Failures caused by aborting the dispatch are not recorded.
+       *
+       * @param result - The outcome of the failed handler
+       * @param execution - The notification being published and its context
+       */
+      const recordDeadLetter = async (
+        result: NotificationHandlerResult,
+        execution: NotificationExecution
+      ) => {
+        if (!execution.context.signal.aborted) {
+          await deadLetterStore.add({
+            id: generateId(),
+            notification: execution.notification,
+            handlerKey: result.handlerKey,
+            error: result.error!,
+            attempts: result.attempts,
+            failedAt: new Date(),
+          });
+        }
+      };
+
+      /**
+       * Executes all notification handlers sequentially for the given handlers array with the provided notification.
+       * Stops at the first failing handler, marking the remaining ones as skipped,
+       * and does not start queued handlers once the dispatch is aborted.
+       *
+       * @param handlers - Array of handler tokens to execute, or undefined if no handlers
+       * @param execution - The notification to pass to each notification handler and its context
+       * @param collectResult - Whether to return the results instead of throwing the first error
+       */
+      const executeNotificationHandlersSequentially = async (
+        handlers: DIToken<any>[] | undefined,
+        execution: NotificationExecution,
+        collectResult: boolean
+      ) => {
+        const results: NotificationHandlerResult[] = [];
+
+        for (const [index, handler] of (handlers ?? []).entries()) {
+          if (execution.context.signal.aborted) {
+            throw execution.context.signal.reason;
+          }
+
+          const result = await executeNotificationHandler(handler, execution);
+          results.push(result);
+
+          if (result.status === "rejected") {
+            if (!collectResult) {
+              throw result.error;
+            }
+
+            results.push(
+              ...handlers!.slice(index + 1).map(createSkippedResult)
+            );
+            break;
+          }
+        }
+
+        return results;
+      };
+
+      /**
+       * Executes all notification handlers in parallel for the given handlers array with the provided notification,
+       * running at most as many handlers at once as the limiter of the publish allows.
+       * Queued handlers are skipped once the publish failed or the dispatch is aborted.
+       *
+       * @param handlers - Array of handler tokens to execute, or undefined if no handlers
+       * @param execution - The notification to pass to each notification handler and its context
+       * @param collectResult - Whether to wait for every handler instead of rejecting on the first error
+       */
+      const executeNotificationHandlersInParallel = async (
+        handlers: DIToken<any>[] | undefined,
+        execution: NotificationExecution,
+        collectResult: boolean
+      ) => {
+        let failed = false;
+
+        return await Promise.all(
+          (handlers ?? []).map((handler) =>
+            execution.limiter.run(async () => {
+              if (failed || execution.context.signal.aborted) {
+                return createSkippedResult(handler);
+              }
+
+              const result = await executeNotificationHandler(
+                handler,
+                execution
+              );
+
+              if (result.status === "rejected" && !collectResult) {
+                // The publish already rejects with the error of another handler
+                if (failed) {
+                  await recordDeadLetter(result, execution);
+                  return result;
+                }
+
+                failed = true;
+                throw result.error;
+              }
+
+              return result;
+            })
           )
         );
-      }
-    };
+      };
 
-    /**
-     * Executes all notification handlers in parallel for the given handlers array with the provided notification, but wont stop on error.
-     *
-     * @param handlers - Array of handler tokens to execute, or undefined if no handlers
-     * @param notification - The notification to pass to each notification handler
-     */
-    const executeNotificationHandlersBestEffort = async (
-      handlers: DIToken<any>[] | undefined,
-      notification: unknown
-    ) => {
-      if (!handlers || handlers.length === 0) {
-        return [];
-      }
+      /**
+       * Executes all notification handlers in parallel for the given handlers array with the provided notification, but wont stop on error.
+       * Failed handlers are recorded as dead letters since their errors are not rethrown.
+       *
+       * @param handlers - Array of handler tokens to execute, or undefined if no handlers
+       * @param execution - The notification to pass to each notification handler and its context
+       */
+      const executeNotificationHandlersBestEffort = async (
+        handlers: DIToken<any>[] | undefined,
+        execution: NotificationExecution
+      ) => {
+        const results = await executeNotificationHandlersInParallel(
+          handlers,
+          execution,
+          true
+        );
+
+        for (const result of results) {
+          if (result.status === "rejected") {
+            await recordDeadLetter(result, execution);
+          }
+        }
+
+        return results;
+      };
+
+      const handlersLimiter = createConcurrencyLimiter(
+        options.maxConcurrentHandlers
+      );
+
+      // Contexts of the dispatches running within a handler holding a slot, with their number of holders
+      const slotContexts = new WeakMap<object, number>();
+
+      /**
+       * Runs a notification handler, or a dispatch nested in one, as holding a concurrency slot.
+       * Dispatches nested in it, found through the async local storage or their `parent` context,
+       * then skip the limiter: waiting for a slot while their parent holds one could deadlock the bus.
+       *
+       * @param context - The context given to the handlers of the dispatch
+       * @param execute - The function running within the slot
+       * @returns The result of the function
+       */
+      const runInHandlerSlot = async <R>(
+        context: HandlerContext,
+        execute: () => Promise<R>
+      ) => {
+        slotContexts.set(context, (slotContexts.get(context) ?? 0) + 1);
+
+        try {
+          return await (dispatchStorage
+            ? dispatchStorage.run(
+                { ...dispatchStorage.getStore(), inHandlerSlot: true },
+                execute
+              )
+            : execute());
+        } finally {
+          const holders = slotContexts.get(context)! - 1;
+
+          if (holders) {
+            slotContexts.set(context, holders);
+          } else {
+            slotContexts.delete(context);
+          }
+        }
+      };
+
+      /**
+       * Whether a dispatch is nested in a notification handler holding a concurrency slot.
+       *
+       * @param parent - The parent context passed explicitly to the dispatch
+       * @returns True if the dispatch is nested in a handler holding a slot
+       */
+      const isInHandlerSlot = (parent?: DispatchContext) =>
+        Boolean(
+          dispatchStorage?.getStore()?.inHandlerSlot ||
+            (parent && slotContexts.has(parent))
+        );
+
+      const deadLetterStore =
+        options.deadLetterStore ?? createInMemoryDeadLetterStore();
+
+      /**
+       * Event bus API over the dead letter store. Replays target the failed handler
+       * only, looking it up in the notification handlers state.
+       */
+      const deadLetters: IDeadLetterChannel = {
+        list: (filter) => deadLetterStore.list(filter),
+        async replay(id) {
+          const deadLetter = await deadLetterStore.get(id);
+
+          if (!deadLetter) {
+            throw new Error(`Dead letter not found: ${id}`);
+          }
 
-      const errors: Error[] = [];
+          const { notification, handlerKey } = deadLetter;
+          const handler = findHandlersForToken(notification.token).find(
+            (token) => token.key === handlerKey
+          );
+
+          if (!handler) {
+            throw new Error(
+              `Notification handler ${handlerKey} not found for Notification ${notification.token.key}`
+            );
+          }
+
+          const dispatchContext = createDispatchContext(notification);
+          const result = await runInDispatchScope(
+            dispatchContext,
+            undefined,
+            (scopeContainer) =>
+              runNotificationHandler(handler, {
+                notification,
+                context: {
+                  ...dispatchContext,
+                  signal: new AbortController().signal,
+                },
+                handlerHooks: resolveMiddlewares(
+                  notification.token,
+                  scopeContainer
+                ).handlerHooks,
+                limiter: createConcurrencyLimiter(),
+                container: scopeContainer,
+                nested: false,
+              })
+          );
+
+          if (result.status === "fulfilled") {
+            await deadLetterStore.remove(id);
+          } else {
+            await deadLetterStore.add({
+              ...deadLetter,
+              error: result.error!,
+              attempts: deadLetter.attempts + result.attempts,
+              failedAt: new Date(),
+            });
+          }
+
+          return result;
+        },
+        async purge(filter) {
+          const purged = await deadLetterStore.list(filter);
+
+          for (const deadLetter of purged) {
+            await deadLetterStore.remove(deadLetter.id);
+          }
+
+          return purged.length;
+        },
+      };
+
+      const dispatchStorage = options.asyncLocalStorage as
+        | IAsyncLocalStorage<DispatchScope>
+        | undefined;
+      const outboxStore = options.outbox?.store ?? createInMemoryOutboxStore();
+
+      /**
+       * Runs a dispatch in its scope, with its context and the container of its scope as the ambient ones,
+       * so that nested dispatches inherit them. The scope is created by the given factory, or else shared
+       * with the dispatch in progress, or else created by the `scope` option, and is disposed once the
+       * dispatch completes. Only the scope is set up when no async local storage is configured.
+       *
+       * @param context - The context of the dispatch
+       * @param createScope - Factory of the scope supplied by the caller of the dispatch
+       * @param execute - The function performing the dispatch in the container of its scope
+       * @returns The result of the dispatch
+       */
+      const runInDispatchScope = async <R>(
+        context: DispatchContext,
+        createScope: DispatchScopeFactory | undefined,
+        execute: (scopeContainer: DIContainer) => Promise<R>
+      ) => {
+        const ambientContainer = dispatchStorage?.getStore()?.container;
+        const scopeFactory =
+          createScope ?? (ambientContainer ? undefined : options.scope);
+        const scope = scopeFactory
+          ? await scopeFactory(container, context)
+          : undefined;
+        const scopeContainer =
+          scope?.container ?? ambientContainer ?? container;
+
+        try {
+          return await (dispatchStorage
+            ? dispatchStorage.run(
+                {
+                  ...dispatchStorage.getStore(),
+                  context,
+                  container: scopeContainer,
+                },
+                () => execute(scopeContainer)
+              )
+            : execute(scopeContainer));
+        } finally {
+          await scope?.dispose?.();
+        }
+      };
+
+      /**
+       * Runs a request pipeline as an outbox unit of work. Notifications published while it
+       * runs are buffered, then dispatched once it resolves or discarded if it rejects.
+       * Each buffered notification is removed once dispatched, and failures to dispatch one
+       * are reported to the `onFlushError` hook instead of rejecting the committed request.
+       * Handlers still running once it ended, e.g. after a timeout, no longer buffer their publishes.
+       *
+       * @param execute - The function running the request pipeline
+       * @returns The result of the request pipeline
+       */
+      const runInUnitOfWork = async <R>(execute: () => Promise<R>) => {
+        const unitOfWork: UnitOfWork = { id: generateId(), status: "open" };
+        let result: R;
+
+        try {
+          result = await dispatchStorage!.run(
+            { ...dispatchStorage!.getStore(), unitOfWork },
+            execute
+          );
+          unitOfWork.status = "committed";
+        } catch (error) {
+          unitOfWork.status = "discarded";
+          unitOfWork.error = error;
+          const discarded = await outboxStore.list(unitOfWork.id);
+          await outboxStore.clear(unitOfWork.id);
+          await options.outbox?.onDiscard?.(discarded, error);
+          throw error;
+        }
 
-      await Promise.all(
-        handlers.map(async (handler) => {
+        // The command is committed: a failing notification must neither reject it nor hold back the others
+        for (const entry of await outboxStore.list(unitOfWork.id)) {
           try {
-            const handlerInstance = container.resolve(
-              handler as DIToken<INotificationHandler<any>>
+            await eventBus.publish(
+              codec.decode(entry.envelope),
+              entry.strategy,
+              entry.options
             );
-            await handlerInstance.handle(notification);
           } catch (error) {
-            errors.push(error as Error);
+            await Promise.resolve(options.outbox?.onFlushError?.(entry, error))
+              // A failing error callback must not stop the flush
+              .catch(() => undefined);
           }
-        })
+
+          await outboxStore.remove(unitOfWork.id, entry.id);
+        }
+
+        return result;
+      };
+
+      /**
+       * Queue publishing the notifications of `publishLater` in the background.
+       * Queued notifications are published outside of the scope that queued them,
+       * so that they are never buffered by the outbox of a finished invoke.
+       */
+      const queue = createDispatchQueue<QueuedNotification>(
+        async ({ notification, strategy, options }) => {
+          // Lets the publisher move on before the handlers run, even when none of them awaits
+          await delay(0);
+
+          return dispatchStorage
+            ? dispatchStorage.run({}, () =>
+                eventBus.publish(notification, strategy, options)
+              )
+            : eventBus.publish(notification, strategy, options);
+        },
+        options.queue,
+        (error, entry) => options.queue?.onError?.(error, entry.notification)
       );
 
-      return errors;
-    };
+      const transport = options.transport?.transport;
+      const outgoing = options.transport?.outgoing ?? [];
+      const isOutgoing =
+        typeof outgoing === "function"
+          ? outgoing
+          : (tokenKey: string) => outgoing.includes(tokenKey);
 
-    return {
-      async invoke(req) {
-        const handlerToken = requestsState[req.token.key];
+      // Notifications received from the transport, which must not be sent back
+      const receivedNotifications = new WeakSet<INotification<any>>();
 
-        if (!handlerToken) {
-          throw new Error(
-            `Request handler not found for Request ${req.token.key}`
-          );
+      // Received notifications may only be handled through a parent token or a key pattern
+      const codec = options.codec ?? createMessageCodec();
+      [
+        ...Object.values(notificationTokens),
+        ...container.findImplementationTokens(INotificationToken),
+      ].forEach((token) => {
+        if (!codec.has(token.key)) {
+          codec.register(token);
         }
+      });
 
-        const handler: { handle: (value: any) => any } =
-          container.resolve(handlerToken);
-
-        const middlewares = findMiddlewaresForToken(req.token);
+      /**
+       * Publishes a notification received from the transport to the local handlers.
+       * Notifications without local handlers are ignored, while those unknown to the codec
+       * are reported to the `onError` hook.
+       *
+       * @param envelope - The envelope of the received notification
+       */
+      const receive = async (envelope: MessageEnvelope) => {
+        try {
+          const notification = codec.decode<INotification<any>>(envelope);
 
-        const pipeline = createMiddlewarePipeline(
-          middlewares,
-          async (request: unknown): Promise<unknown> => {
-            return handler.handle(request);
+          if (!findHandlersForToken(notification.token).length) {
+            return;
           }
+
+          receivedNotifications.add(notification);
+
+          await eventBus.publish(notification);
+        } catch (error) {
+          await options.transport?.onError?.(error, envelope);
+        }
+      };
+
+      const unsubscribeTransport = transport?.subscribe(receive);
+
+      /**
+       * Inspects the container and the handlers state for wiring problems.
+       *
+       * @returns The validation report
+       */
+      const validate = (): EventBusValidationReport => {
+        const registeredRequests = [
+          ...container.findImplementationTokens(ICommandToken),
+          ...container.findImplementationTokens(IQueryToken),
+        ];
+        const registeredNotifications =
+          container.findImplementationTokens(INotificationToken);
+
+        const unhandledRequests = registeredRequests
+          .filter((token) => !requestsState[token.key])
+          .map((token) => token.key);
+        const orphanNotifications = registeredNotifications
+          .filter((token) => !findHandlersForToken(token).length)
+          .map((token) => token.key);
+
+        const registeredMiddlewares = [
+          ...tokensMiddlewares,
+          ...tokensNotificationHandlerMiddlewares,
+        ];
+        const unknownMiddlewares = middlewareOrder
+          .filter((token) => !registeredMiddlewares.includes(token))
+          .map((token) => token.key);
+
+        // Keys of the known messages and of every token they implement
+        const reachableKeys = new Set<string>([
+          INotificationToken.key,
+          ICommandToken.key,
+          IQueryToken.key,
+        ]);
+        const addReachable = (token: DIToken<any>) => {
+          reachableKeys.add(token.key);
+          token.metadata?.implements?.forEach(addReachable);
+        };
+        [
+          ...registeredRequests,
+          ...registeredNotifications,
+          ...Object.values(requestTokens),
+          ...Object.values(notificationTokens),
+        ].forEach(addReachable);
+
+        const unreachableMiddlewares = registeredMiddlewares
+          .filter(
+            (token) =>
+              !token.metadata?.generics?.some((genericToken) =>
+                reachableKeys.has(genericToken.key)
+              )
+          )
+          .map((token) => token.key);
+
+        return {
+          valid: ![
+            unhandledRequests,
+            orphanNotifications,
+            unknownMiddlewares,
+            unreachableMiddlewares,
+          ].some((keys) => keys.length),
+          unhandledRequests,
+          orphanNotifications,
+          unknownMiddlewares,
+          unreachableMiddlewares,
+        };
+      };
+
+      /**
+       * Describes the route of every known message from the handlers state.
+       *
+       * @returns The routing table
+       */
+      const describe = (): RoutingTable => {
+        const routes: Record<string, MessageRoute> = {};
+
+        const addRoute = (
+          token: DIToken<any>,
+          kind: MessageKind,
+          handlers: DIToken<any>[]
+        ) => {
+          routes[token.key] ??= {
+            key: token.key,
+            kind,
+            handlers: (handlers ?? []).map((handler) => handler.key),
+            middlewares: compilePipeline(token).map(
+              (middleware) => middleware.token.key
+            ),
+          };
+        };
+
+        Object.values(notificationTokens).forEach((token) =>
+          addRoute(token, "notification", findHandlersForToken(token))
         );
+        Object.values(requestTokens).forEach((token) => {
+          const handler = requestsState[token.key];
+          addRoute(
+            token,
+            tokensQueryHandlers.includes(handler) ? "query" : "command",
+            [handler]
+          );
+        });
+        container
+          .findImplementationTokens(INotificationToken)
+          .forEach((token) => addRoute(token, "notification", []));
+        container
+          .findImplementationTokens(ICommandToken)
+          .forEach((token) => addRoute(token, "command", []));
+        container
+          .findImplementationTokens(IQueryToken)
+          .forEach((token) => addRoute(token, "query", []));
+
+        return {
+          messages: Object.values(routes).sort((a, b) =>
+            a.key.localeCompare(b.key)
+          ),
+          middlewareOrder: middlewareOrder.map((token) => token.key),
+        };
+      };
+
+      // Handlers and functions subscribed at runtime, by the token standing for them
+      const subscribedHandlers = new WeakMap<
+        DIToken<any>,
+        INotificationHandler<any>
+      >();
+      let subscriptionCount = 0;
 
-        return pipeline(req);
-      },
       /**
-       * Publishes a notification with the given notification.
-       * @param notification The notification to publish.
-       * @returns A promise that resolves when all notification handlers have been executed.
+       * Adds a notification handler to the notifications state at runtime. Handlers and plain
+       * functions get a token of their own, mapped to them instead of being resolved from the container.
+       *
+       * @param token - The token of the notification to handle
+       * @param subscriber - The handler token, handler or function handling the notification
+       * @returns A function removing the handler from the notifications state
        */
-      async publish(notification, strategy = "besteffort" as any) {
-        const handlers = notificationsState[notification.token.key];
+      const subscribe = (
+        token: DIToken<any>,
+        subscriber: NotificationSubscriber<any>
+      ) => {
+        let handlerToken: DIToken<any>;
+
+        if (typeof subscriber === "function" || "handle" in subscriber) {
+          handlerToken = createDIToken().as(
+            `Subscription(${token.key})#${++subscriptionCount}`
+          );
+          subscribedHandlers.set(
+            handlerToken,
+            typeof subscriber === "function"
+              ? {
+                  handle: async (notification, context) =>
+                    subscriber(notification, context),
+                }
+              : subscriber
+          );
+        } else {
+          handlerToken = subscriber;
+        }
+
+        const previousHandlers = notificationsState[token.key];
+        notificationsState[token.key] = sortNotificationHandlers(token.key, [
+          ...(previousHandlers ?? []),
+          handlerToken,
+        ]);
+        matchedHandlers.clear();
+
+        try {
+          [token, ...Object.values(notificationTokens)].forEach(
+            findHandlersForToken
+          );
+        } catch (error) {
+          // A subscription forming an ordering cycle is rejected without taking effect
+          if (previousHandlers) {
+            notificationsState[token.key] = previousHandlers;
+          } else {
+            delete notificationsState[token.key];
+          }
+          matchedHandlers.clear();
+          throw error;
+        }
+
+        notificationTokens[token.key] ??= token;
+        if (!codec.has(token.key)) {
+          codec.register(token);
+        }
+
+        let subscribed = true;
+
+        return () => {
+          const handlers = [...(notificationsState[token.key] ?? [])];
+          const index = handlers.indexOf(handlerToken);
+
+          if (!subscribed || index === -1) {
+            return;
+          }
+
+          subscribed = false;
+          handlers.splice(index, 1);
+
+          if (handlers.length) {
+            notificationsState[token.key] = handlers;
+          } else {
+            delete notificationsState[token.key];
+          }
+          matchedHandlers.clear();
+        };
+      };
+
+      if (options.strict) {
+        const report = validate();
+
+        if (!report.valid) {
+          throw new EventBusValidationError(report);
+        }
+      }
+
+      const eventBus: IEventBus = {
+        deadLetters,
+        validate,
+        describe,
+        subscribe,
+        async publishLater(
+          notification,
+          strategy = "besteffort",
+          publishOptions
+        ) {
+          await queue.enqueue({
+            notification,
+            strategy,
+            options: {
+              ...publishOptions,
+              parent:
+                publishOptions?.parent ?? dispatchStorage?.getStore()?.context,
+            },
+          });
+        },
+        drain: () => queue.drain(),
+        shutdown() {
+          unsubscribeTransport?.();
+          return queue.shutdown();
+        },
+        async invoke(request, dispatchOptions) {
+          const handlerToken = requestsState[request.token.key];
+
+          if (!handlerToken) {
+            throw new Error(
+              `Request handler not found for Request ${request.token.key}`
+            );
+          }
+
+          const req = await validatePayload(request);
+
+          const dispatch = createDispatchController(
+            req.token.key,
+            dispatchOptions
+          );
+          const dispatchContext = createDispatchContext(
+            req,
+            dispatchOptions?.parent ?? dispatchStorage?.getStore()?.context
+          );
+          const context: HandlerContext = {
+            ...dispatchContext,
+            signal: dispatch.signal,
+          };
+
+          const execute = (): Promise<any> =>
+            runInDispatchScope(
+              dispatchContext,
+              dispatchOptions?.scope,
+              (scopeContainer) => {
+                const handler: {
+                  handle: (value: any, context: HandlerContext) => any;
+                } = scopeContainer.resolve(handlerToken);
+
+                const { middlewares } = resolveMiddlewares(
+                  req.token,
+                  scopeContainer
+                );
 
-        const middlewares = findMiddlewaresForToken(notification.token);
+                const pipeline = createMiddlewarePipeline(
+                  middlewares,
+                  context,
+                  async (request: unknown): Promise<unknown> => {
+                    return handler.handle(request, context);
+                  }
+                );
 
-        const pipeline = createMiddlewarePipeline(middlewares, async () => {
-          switch (strategy) {
-            case "parallel":
-              return await executeNotificationHandlersInParallel(
-                handlers,
-                notification
+                const run = () => dispatch.run(() => pipeline(req));
+
+                // Publishes of the handler are nested in the handler slot of this invoke
+                return isInHandlerSlot(dispatchOptions?.parent)
+                  ? runInHandlerSlot(context, run)
+                  : run();
+              }
+            );
+
+          if (
+            options.outbox &&
+            dispatchStorage!.getStore()?.unitOfWork?.status !== "open"
+          ) {
+            return runInUnitOfWork(execute);
+          }
+
+          return execute();
+        },
+        /**
+         * Publishes a notification with the given notification.
+         * @param notification The notification to publish.
+         * @param strategy The strategy used to run the notification handlers.
+         * @param publishOptions Additional publish options.
+         * @returns A promise that resolves when all notification handlers have been executed.
+         */
+        async publish(
+          published,
+          strategy = "besteffort" as any,
+          publishOptions?: PublishOptions
+        ) {
+          const isReceived = receivedNotifications.has(published);
+          const notification = await validatePayload(published);
+          const handlers = findHandlersForToken(notification.token);
+          const collectResult = publishOptions?.collectResult ?? false;
+
+          const dispatchContext = createDispatchContext(
+            notification,
+            publishOptions?.parent ?? dispatchStorage?.getStore()?.context
+          );
+
+          // Publishes after a committed unit of work are dispatched right away
+          const unitOfWork = dispatchStorage?.getStore()?.unitOfWork;
+          if (unitOfWork && unitOfWork.status !== "committed") {
+            // Buffered notifications are decoded when dispatched, which requires a registered codec
+            if (!codec.has(notification.token.key)) {
+              codec.register(notification.token);
+            }
+
+            // The raw notification is buffered since its flush validates it again
+            const entry: OutboxEntry = {
+              id: dispatchContext.messageId,
+              envelope: codec.encode({
+                ...published,
+                metadata: toMessageMetadata(dispatchContext),
+              }),
+              strategy,
+              options: publishOptions && {
+                collectResult: publishOptions.collectResult,
+                concurrency: publishOptions.concurrency,
+                timeout: publishOptions.timeout,
+              },
+            };
+
+            // The invoke rejected while its handler kept running, e.g. after a timeout
+            if (unitOfWork.status === "discarded") {
+              await options.outbox?.onDiscard?.([entry], unitOfWork.error);
+              throw new Error(
+                `Cannot publish ${notification.token.key}: the invoke that published it already rejected`
               );
-            case "sequential":
-              return await executeNotificationHandlersSequentially(
-                handlers,
-                notification
+            }
+
+            await outboxStore.add(unitOfWork.id, entry);
+
+            return (
+              strategy === "besteffort" || collectResult
+                ? {
+                    ...createPublishResult(notification.token.key, []),
+                    deferred: true,
+                  }
+                : undefined
+            ) as any;
+          }
+
+          if (transport && isOutgoing(notification.token.key) && !isReceived) {
+            await transport.send(
+              codec.encode({
+                ...notification,
+                metadata: toMessageMetadata(dispatchContext),
+              })
+            );
+          }
+
+          const dispatch = createDispatchController(
+            notification.token.key,
+            publishOptions
+          );
+          const context: HandlerContext = {
+            ...dispatchContext,
+            signal: dispatch.signal,
+            strategy,
+          };
+
+          return await runInDispatchScope(
+            dispatchContext,
+            publishOptions?.scope,
+            (scopeContainer) => {
+              const { middlewares, handlerHooks } = resolveMiddlewares(
+                notification.token,
+                scopeContainer
               );
-            case "besteffort":
-              return await executeNotificationHandlersBestEffort(
-                handlers,
-                notification
+              const execution: NotificationExecution = {
+                notification,
+                context,
+                handlerHooks,
+                limiter: createConcurrencyLimiter(publishOptions?.concurrency),
+                container: scopeContainer,
+                nested: isInHandlerSlot(publishOptions?.parent),
+              };
+
+              const pipeline = createMiddlewarePipeline(
+                middlewares,
+                context,
+                async () => {
+                  let results: NotificationHandlerResult[];
+
+                  switch (strategy as PublishStrategy) {
+                    case "parallel":
+                      results = await executeNotificationHandlersInParallel(
+                        handlers,
+                        execution,
+                        collectResult
+                      );
+                      break;
+                    case "sequential":
+                      results = await executeNotificationHandlersSequentially(
+                        handlers,
+                        execution,
+                        collectResult
+                      );
+                      break;
+                    case "besteffort":
+                      return createPublishResult(
+                        notification.token.key,
+                        await executeNotificationHandlersBestEffort(
+                          handlers,
+                          execution
+                        )
+                      );
+                    default:
+                      throw new Error(`Invalid publish strategy: ${strategy}`);
+                  }
+
+                  if (!collectResult) {
+                    return;
+                  }
+
+                  const result = createPublishResult(
+                    notification.token.key,
+                    results
+                  );
+                  if (result.errors.length) {
+                    throw new PublishError(result);
+                  }
+
+                  return result;
+                }
               );
-            default:
-              throw new Error(`Invalid publish strategy: ${strategy}`);
-          }
-        });
 
-        return (await pipeline(notification)) as Promise<
-          typeof strategy extends "besteffort" ? Error[] : void
-        >;
-      },
-    };
-  }
-);
+              return dispatch.run(() => pipeline(notification));
+            }
+          );
+        },
+      };
+
+      return eventBus;
+    }
+  );
+}
+
+/**
+ * Factory function for creating event bus instances with the default options.
+ *
+ * @returns A DIFactory for IEventBus instance ready for registration
+ */
+export const EventBusFactory = createEventBusFactory();
+
+/**
+ * Normalizes a thrown value into an Error instance.
+ *
+ * @param error - The thrown value
+ * @returns The value itself when it is an Error, otherwise an Error wrapping it
+ */
+const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error));
+
+/**
+ * Builds a publish result from the outcome of each notification handler.
+ *
+ * @param notificationKey - Key of the published notification token
+ * @param results - The outcome of each handler
+ * @returns The structured publish result
+ */
+const createPublishResult = (
+  notificationKey: string,
+  results: NotificationHandlerResult[]
+): PublishResult => ({
+  notificationKey,
+  results,
+  errors: results.flatMap((result) =>
+    result.status === "rejected" && result.error ? [result.error] : []
+  ),
+});
+
+/**
+ * Adds a `create` method to a message token, building its messages.
+ *
+ * @param token - The command, query or notification token
+ * @returns The same token, able to build its messages
+ */
+const withMessageFactory = <T>(token: DIToken<T>): MessageDIToken<T> =>
+  Object.assign(token, {
+    create: (payload: unknown, metadata?: MessageMetadata) =>
+      ({
+        token,
+        payload,
+        createdAt: getMessageClock().now(),
+        metadata: { messageId: generateId(), ...metadata },
+      } as T),
+  });
+
+/**
+ * Builds the result of a notification handler that was never started.
+ *
+ * @param handler - The skipped handler token
+ * @returns The skipped handler result
+ */
+const createSkippedResult = (
+  handler: DIToken<any>
+): NotificationHandlerResult => ({
+  handlerKey: handler.key,
+  status: "skipped",
+  attempts: 0,
+  duration: 0,
+});
 
 /**
  * Creates a helper function for building notification tokens with proper metadata.
@@ -330,17 +1511,19 @@ export function createNotificationDIToken<T extends INotification<any>>() {
      * Automatically adds INotificationToken in the implements metadata.
      *
      * @param key - Unique string identifier for this notification type
-     * @param metadata - Optional metadata including generics and additional implements
-     * @returns A configured notification token
+     * @param metadata - Optional metadata including generics, additional implements and a payload validator
+     * @returns A configured notification token, with a `create` method building its messages
      */
-    as(key: string, metadata?: DITokenMetadata<T>) {
-      return createDIToken<T>().as(key, {
-        ...metadata,
-        implements: [
-          INotificationToken,
-          ...(metadata?.implements ?? []),
-        ] as any,
-      });
+    as(key: string, metadata?: MessageTokenMetadata<T>) {
+      return withMessageFactory(
+        createDIToken<T>().as(key, {
+          ...metadata,
+          implements: [
+            INotificationToken,
+            ...(metadata?.implements ?? []),
+          ] as any,
+        })
+      );
     },
   };
 }
@@ -361,14 +1544,16 @@ export function createCommandDIToken<T extends ICommand<any, unknown>>() {
      * Automatically adds ICommandToken in the implements metadata.
      *
      * @param key - Unique string identifier for this command type
-     * @param metadata - Optional metadata including generics and additional implements
-     * @returns A configured command token
+     * @param metadata - Optional metadata including generics, additional implements and a payload validator
+     * @returns A configured command token, with a `create` method building its messages
      */
-    as(key: string, metadata?: DITokenMetadata<T>) {
-      return createDIToken<T>().as(key, {
-        ...metadata,
-        implements: [ICommandToken, ...(metadata?.implements ?? [])] as any,
-      });
+    as(key: string, metadata?: MessageTokenMetadata<T>) {
+      return withMessageFactory(
+        createDIToken<T>().as(key, {
+          ...metadata,
+          implements: [ICommandToken, ...(metadata?.implements ?? [])] as any,
+        })
+      );
     },
   };
 }
@@ -389,14 +1574,16 @@ export function createQueryDIToken<T extends IQuery<any, unknown>>() {
      * Automatically adds IQueryToken in the implements metadata.
      *
      * @param key - Unique string identifier for this query type
-     * @param metadata - Optional metadata including generics and additional implements
-     * @returns A configured query token
+     * @param metadata - Optional metadata including generics, additional implements and a payload validator
+     * @returns A configured query token, with a `create` method building its messages
      */
-    as(key: string, metadata?: DITokenMetadata<T>) {
-      return createDIToken<T>().as(key, {
-        ...metadata,
-        implements: [IQueryToken, ...(metadata?.implements ?? [])] as any,
-      });
+    as(key: string, metadata?: MessageTokenMetadata<T>) {
+      return withMessageFactory(
+        createDIToken<T>().as(key, {
+          ...metadata,
+          implements: [IQueryToken, ...(metadata?.implements ?? [])] as any,
+        })
+      );
     },
   };
 }
@@ -419,10 +1606,10 @@ export function createNotificationHandlerDIToken<
      * Automatically implements the INotificationHandlerToken interface.
      *
      * @param key - Unique string identifier for this handler
-     * @param metadata - Optional metadata including generics and additional implements
+     * @param metadata - Optional metadata including generics, additional implements and a retry policy
      * @returns A configured notification handler token
      */
-    as(key: string, metadata?: DITokenMetadata<INotificationHandler<T>>) {
+    as(key: string, metadata?: NotificationHandlerTokenMetadata<T>) {
       return createDIToken<T>().as(key, {
         ...metadata,
         implements: [
@@ -453,7 +1640,7 @@ export function createCommandHandlerDIToken<T extends ICommandHandler<any>>() {
      * @param metadata - Optional metadata including generics and additional implements
      * @returns A configured command handler token
      */
-    as(key: string, metadata?: DITokenMetadata<T>) {
+    as(key: string, metadata?: RequestHandlerTokenMetadata<T>) {
       return createDIToken<T>().as(key, {
         ...metadata,
         implements: [
@@ -484,7 +1671,7 @@ export function createQueryHandlerDIToken<T extends IQueryHandler<any>>() {
      * @param metadata - Optional metadata including generics and additional implements
      * @returns A configured query handler token
      */
-    as(key: string, metadata?: DITokenMetadata<T>) {
+    as(key: string, metadata?: RequestHandlerTokenMetadata<T>) {
       return createDIToken<T>().as(key, {
         ...metadata,
         implements: [
@@ -524,3 +1711,37 @@ export function createMiddlewareDIToken<T, R>() {
     },
   };
 }
+
+/**
+ * Creates a helper function for building notification handler middleware tokens with proper metadata.
+ * This function returns an object with an `as` method that automatically sets up
+ * the correct implements chain for notification handler middlewares.
+ *
+ * @template T - The type of the notification
+ * @returns An object with an `as` method for creating notification handler middleware tokens
+ */
+export function createNotificationHandlerMiddlewareDIToken<T>() {
+  return {
+    /**
+     * Creates a notification handler middleware token with the specified key and optional metadata.
+     * Automatically implements the INotificationHandlerMiddlewareToken interface.
+     * Use the generics field to specify which notification types this middleware applies to.
+     *
+     * @param key - Unique string identifier for this middleware
+     * @param metadata - Optional metadata including generics (target notification types) and additional implements
+     * @returns A configured notification handler middleware token
+     */
+    as(
+      key: string,
+      metadata?: DITokenMetadata<INotificationHandlerMiddleware<T>>
+    ) {
+      return createDIToken<INotificationHandlerMiddleware<T>>().as(key, {
+        ...metadata,
+        implements: [
+          INotificationHandlerMiddlewareToken,
+          ...(metadata?.implements ?? []),
+        ],
+      });
+    },
+  };
+}
@@ -0,0 +1,170 @@
+import {
+  EventBusValidationReport,
+  PublishResult,
+  ValidationIssue,
+} from "./IEventBus.js";
+
+/**
+ * Error raised when one or more notification handlers fail during a publish.
+ * Mirrors `AggregateError`: the individual handler errors are available in `errors`,
+ * and the full per-handler outcome (including which handler failed) in `result`.
+ */
+export class PublishError extends Error {
+  /** Errors thrown by the failed handlers */
+  readonly errors: Error[];
+  /** The structured outcome of the publish */
+  readonly result: PublishResult;
+
+  /**
+   * @param result - The publish result containing at least one failed handler
+   * @param message - Optional message overriding the generated one
+   */
+  constructor(result: PublishResult, message?: string) {
+    super(
+      message ??
+        `Notification ${result.notificationKey} failed in handlers: ` +
+          result.results
+            .filter((handlerResult) => handlerResult.status === "rejected")
+            .map((handlerResult) => handlerResult.handlerKey)
+            .join(", ")
+    );
+    this.name = "PublishError";
+    this.errors = result.errors;
+    this.result = result;
+  }
+}
+
+/**
+ * Error raised when a dispatch does not complete within its configured timeout.
+ * The dispatch's abort signal is aborted with this error as its reason.
+ */
+export class HandlerTimeoutError extends Error {
+  /** Key of the token of the command, query or notification that timed out */
+  readonly tokenKey: string;
+  /** The timeout that elapsed, in milliseconds */
+  readonly timeout: number;
+
+  /**
+   * @param tokenKey - Key of the token of the dispatched message
+   * @param timeout - The timeout that elapsed, in milliseconds
+   */
+  constructor(tokenKey: string, timeout: number) {
+    super(`Handler for ${tokenKey} timed out after ${timeout}ms`);
+    this.name = "HandlerTimeoutError";
+    this.tokenKey = tokenKey;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Error raised when a notification is enqueued while the dispatch queue is full
+ * and its overflow behavior is `"reject"`.
+ */
+export class QueueFullError extends Error {
+  /** The maximum number of notifications the queue holds */
+  readonly maxSize: number;
+
+  /**
+   * @param maxSize - The maximum number of notifications the queue holds
+   */
+  constructor(maxSize: number) {
+    super(`Dispatch queue is full (max size ${maxSize})`);
+    this.name = "QueueFullError";
+    this.maxSize = maxSize;
+  }
+}
+
+/**
+ * Error raised when the payload of a command, query or notification fails the validator of its token.
+ */
+export class ValidationError extends Error {
+  /** Key of the token of the invalid message */
+  readonly tokenKey: string;
+  /** The problems found in the payload */
+  readonly issues: ReadonlyArray<ValidationIssue>;
+
+  /**
+   * @param tokenKey - Key of the token of the invalid message
+   * @param issues - The problems found in the payload
+   */
+  constructor(tokenKey: string, issues: ReadonlyArray<ValidationIssue>) {
+    super(
+      `Invalid payload for ${tokenKey}: ` +
+        issues
+          .map(({ path, message }) =>
+            path?.length
+              ? `${path
+                  .map((segment) =>
+                    String(typeof segment === "object" ? segment.key : segment)
+                  )
+                  .join(".")}: ${message}`
+              : message
+          )
+          .join("; ")
+    );
+    this.name = "ValidationError";
+    this.tokenKey = tokenKey;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error raised when a strict event bus is created with wiring problems.
+ */
+export class EventBusValidationError extends Error {
+  /** The validation report listing the problems */
+  readonly report: EventBusValidationReport;
+
+  /**
+   * @param report - The validation report listing the problems
+   */
+  constructor(report: EventBusValidationReport) {
+    const problems: [string, string[]][] = [
+      ["Unhandled requests", report.unhandledRequests],
+      ["Orphan notifications", report.orphanNotifications],
+      ["Unknown middlewares in middleware order", report.unknownMiddlewares],
+      ["Unreachable middlewares", report.unreachableMiddlewares],
+    ];
+    super(
+      "Invalid event bus wiring: " +
+        problems
+          .filter(([, keys]) => keys.length)
+          .map(([label, keys]) => `${label}: ${keys.join(", ")}`)
+          .join("; ")
+    );
+    this.name = "EventBusValidationError";
+    this.report = report;
+  }
+}
+
+/**
+ * Error raised when events are appended to a stream that is not at the expected version,
+ * typically because another writer appended to it concurrently.
+ */
+export class WrongExpectedVersionError extends Error {
+  /** Id of the stream */
+  readonly streamId: string;
+  /** The version the stream was expected to be at */
+  readonly expectedVersion: number;
+  /** The version the stream is at */
+  readonly actualVersion: number;
+
+  /**
+   * @param streamId - Id of the stream
+   * @param expectedVersion - The version the stream was expected to be at
+   * @param actualVersion - The version the stream is at
+   */
+  constructor(
+    streamId: string,
+    expectedVersion: number,
+    actualVersion: number
+  ) {
+    super(
+      `Stream ${streamId} is at version ${actualVersion}, expected ${expectedVersion}`
+    );
+    this.name = "WrongExpectedVersionError";
+    this.streamId = streamId;
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
@@ -0,0 +1,75 @@
+import type { DIToken } from "@fioc/core";
+import { NotificationHandlerTokenMetadata } from "./IEventBus.js";
+
+/**
+ * Sorts the handlers of a notification according to their `before` / `after` constraints
+ * and their priority. Among the handlers whose constraints are satisfied, the one with the
+ * highest priority runs first, then the one registered first.
+ * Constraints referencing handlers not registered for the notification are ignored.
+ *
+ * @param notificationKey - Key of the notification token, used in error messages
+ * @param handlers - The handler tokens of the notification, in registration order
+ * @returns The handler tokens in execution order
+ * @throws Error if the constraints of the handlers form a cycle
+ */
+export const sortNotificationHandlers = (
+  notificationKey: string,
+  handlers: DIToken<any>[]
+): DIToken<any>[] => {
+  const metadataOf = (handler: DIToken<any>) =>
+    handler.metadata as NotificationHandlerTokenMetadata<any> | undefined;
+  const keys = new Set(handlers.map((handler) => handler.key));
+
+  // Keys of the handlers that must run before each handler
+  const predecessors = new Map<string, Set<string>>(
+    handlers.map((handler) => [handler.key, new Set<string>()])
+  );
+  handlers.forEach((handler) => {
+    metadataOf(handler)?.after?.forEach((other) => {
+      if (keys.has(other.key)) {
+        predecessors.get(handler.key)!.add(other.key);
+      }
+    });
+    metadataOf(handler)?.before?.forEach((other) => {
+      if (keys.has(other.key)) {
+        predecessors.get(other.key)!.add(handler.key);
+      }
+    });
+  });
+
+  const pending = [...handlers];
+  const sorted: DIToken<any>[] = [];
+  const sortedKeys = new Set<string>();
+
+  while (pending.length) {
+    let next: DIToken<any> | undefined;
+
+    pending.forEach((handler) => {
+      const isReady = [...predecessors.get(handler.key)!].every((key) =>
+        sortedKeys.has(key)
+      );
+
+      if (
+        isReady &&
+        (!next ||
+          (metadataOf(handler)?.priority ?? 0) >
+            (metadataOf(next)?.priority ?? 0))
+      ) {
+        next = handler;
+      }
+    });
+
+    if (!next) {
+      throw new Error(
+        `Notification handlers of ${notificationKey} have cyclic ordering constraints: ` +
+          pending.map((handler) => handler.key).join(", ")
+      );
+    }
+
+    pending.splice(pending.indexOf(next), 1);
+    sorted.push(next);
+    sortedKeys.add(next.key);
+  }
+
+  return sorted;
+};
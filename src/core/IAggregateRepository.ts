@@ -0,0 +1,93 @@
+import type { IEventBus, INotification, PublishStrategy } from "./IEventBus.js";
+import type { IEventStore } from "./IEventStore.js";
+
+/**
+ * The state of an event-sourced aggregate, rebuilt from its stream.
+ *
+ * @template S - The type of the state of the aggregate
+ */
+export interface Aggregate<S> {
+  /** Id of the aggregate, which is the id of its stream */
+  id: string;
+  /** The state of the aggregate */
+  state: S;
+  /** Version of the stream the state was rebuilt from, 0 for a new aggregate */
+  version: number;
+}
+
+/**
+ * Options of an aggregate repository: how to rebuild the state of the aggregate
+ * from its events, and where to append and publish its new events.
+ *
+ * @template S - The type of the state of the aggregate
+ * @template E - The type of the events of the aggregate
+ */
+export interface AggregateRepositoryOptions<
+  S,
+  E extends INotification<any> = INotification<any>
+> {
+  /** Store holding the streams of the aggregates */
+  eventStore: IEventStore;
+  /** Event bus publishing the events once appended */
+  eventBus: Pick<IEventBus, "publish">;
+  /** Strategy the events are published with (defaults to "besteffort") */
+  strategy?: PublishStrategy;
+  /**
+   * Called when publishing an appended event rejects. The append is not undone,
+   * and the remaining events are still published.
+   * @param error - The error the publish rejected with
+   * @param event - The event that failed to publish
+   */
+  onPublishError?: (error: unknown, event: E) => void | Promise<void>;
+  /**
+   * Creates the state of a new aggregate.
+   * @param id - Id of the aggregate
+   * @returns The initial state
+   */
+  initialState: (id: string) => S;
+  /**
+   * Applies an event to the state of the aggregate.
+   * @param state - The current state
+   * @param event - The event to apply
+   * @returns The next state
+   */
+  apply: (state: S, event: E) => S;
+}
+
+/**
+ * Loads event-sourced aggregates from their stream and saves their new events.
+ *
+ * @template S - The type of the state of the aggregate
+ * @template E - The type of the events of the aggregate
+ */
+export interface IAggregateRepository<
+  S,
+  E extends INotification<any> = INotification<any>
+> {
+  /**
+   * Rebuilds an aggregate from its stream.
+   * @param id - Id of the aggregate
+   * @returns The aggregate, at version 0 when its stream is empty
+   */
+  load: (id: string) => Promise<Aggregate<S>>;
+  /**
+   * Appends new events to the stream of an aggregate, expecting it at the version the aggregate
+   * was loaded at, then publishes them once the append commits. A failing publish does not undo
+   * the append nor reject the save: it is reported to the `onPublishError` option.
+   * @param aggregate - The aggregate the events were decided from
+   * @param events - The new events
+   * @returns The aggregate with the events applied
+   * @throws WrongExpectedVersionError if the stream was appended to since the aggregate was loaded
+   */
+  save: (aggregate: Aggregate<S>, events: E[]) => Promise<Aggregate<S>>;
+  /**
+   * Loads an aggregate, decides its new events from its state, then saves them.
+   * @param id - Id of the aggregate
+   * @param decide - Decides the new events from the state of the aggregate
+   * @returns The aggregate with the events applied
+   */
+  execute: (
+    id: string,
+    decide: (state: S, aggregate: Aggregate<S>) => E[] | Promise<E[]>
+  ) => Promise<Aggregate<S>>;
+}
@@ -0,0 +1,95 @@
+import type { INotification, NotificationHandlerResult } from "./IEventBus.js";
+
+/**
+ * A notification that could not be handled by one of its handlers,
+ * recorded once the handler exhausted its attempts.
+ */
+export interface DeadLetter {
+  /** Unique identifier of the dead letter */
+  id: string;
+  /** The notification that failed to be handled */
+  notification: INotification<any>;
+  /** Key of the handler token that failed */
+  handlerKey: string;
+  /** The last error thrown by the handler */
+  error: Error;
+  /** Total number of attempts made, including replays */
+  attempts: number;
+  /** Timestamp of the last failure */
+  failedAt: Date;
+}
+
+/**
+ * Criteria used to select dead letters. Omitted fields match every dead letter.
+ */
+export interface DeadLetterFilter {
+  /** Only match dead letters of this notification token key */
+  notificationKey?: string;
+  /** Only match dead letters of this handler token key */
+  handlerKey?: string;
+}
+
+/**
+ * Options of the in-memory dead letter store.
+ */
+export interface InMemoryDeadLetterStoreOptions {
+  /**
+   * Maximum number of dead letters kept, the oldest ones being evicted first (defaults to 1000).
+   * Use `Number.POSITIVE_INFINITY` to keep every dead letter.
+   */
+  maxSize?: number;
+}
+
+/**
+ * Storage for dead letters. Implement this interface to persist dead letters
+ * somewhere other than memory.
+ */
+export interface IDeadLetterStore {
+  /**
+   * Stores a dead letter, replacing any stored dead letter with the same id.
+   * @param deadLetter - The dead letter to store
+   */
+  add: (deadLetter: DeadLetter) => Promise<void>;
+  /**
+   * Finds a dead letter by its id.
+   * @param id - The id of the dead letter
+   * @returns The dead letter, or undefined when it does not exist
+   */
+  get: (id: string) => Promise<DeadLetter | undefined>;
+  /**
+   * Lists the stored dead letters in the order they were first added.
+   * @param filter - Optional criteria the dead letters must match
+   * @returns The matching dead letters
+   */
+  list: (filter?: DeadLetterFilter) => Promise<DeadLetter[]>;
+  /**
+   * Removes a dead letter.
+   * @param id - The id of the dead letter to remove
+   */
+  remove: (id: string) => Promise<void>;
+}
+
+/**
+ * Event bus API for inspecting and recovering dead letters.
+ */
+export interface IDeadLetterChannel {
+  /**
+   * Lists the recorded dead letters.
+   * @param filter - Optional criteria the dead letters must match
+   * @returns The matching dead letters
+   */
+  list: (filter?: DeadLetterFilter) => Promise<DeadLetter[]>;
+  /**
+   * Runs the failed handler of a dead letter again, without re-publishing to the other handlers.
+   * The dead letter is removed when the handler succeeds, and updated when it fails again.
+   * @param id - The id of the dead letter to replay
+   * @returns The outcome of the handler execution
+   */
+  replay: (id: string) => Promise<NotificationHandlerResult>;
+  /**
+   * Removes the recorded dead letters.
+   * @param filter - Optional criteria the dead letters must match
+   * @returns The number of removed dead letters
+   */
+  purge: (filter?: DeadLetterFilter) => Promise<number>;
+}
@@ -1,4 +1,17 @@
-import { createDIToken, type DIToken } from "@fioc/core";
+import {
+  createDIToken,
+  type DIContainer,
+  type DIToken,
+  type DITokenMetadata,
+} from "@fioc/core";
+import type {
+  IDeadLetterChannel,
+  IDeadLetterStore,
+} from "./IDeadLetterStore.js";
+import type { OutboxOptions } from "./IOutboxStore.js";
+import type { TransportOptions } from "./IEventTransport.js";
+import type { IMessageCodec } from "./IMessageCodec.js";
+import type { RoutingTable } from "./IRoutingTable.js";
 
 /**
  * Represents a notification event that can be published to multiple handlers.
@@ -14,24 +27,218 @@ export interface INotification<T> {
   token: DIToken<INotification<T>>;
   /** The payload data carried by the notification */
   payload: T;
+  /** Optional metadata linking the notification to the dispatch that caused it */
+  metadata?: MessageMetadata;
 }
 
 /**
  * Handler interface for processing notification events.
- * Notification handlers receive the payload and can perform side effects
+ * Notification handlers receive the whole notification and can perform side effects
  * but do not return values (fire-and-forget pattern).
  *
- * @template T - The type of the notification payload
+ * @template T - The type of the notification (extends INotification)
  */
-export interface INotificationHandler<T> {
+export interface INotificationHandler<
+  T extends INotification<any> = INotification<any>
+> {
   /**
-   * Handles a notification payload.
-   * @param payload - The notification payload to process
+   * Handles a notification.
+   * @param notification - The notification to process, with its token, payload and metadata
+   * @param context - The context of the dispatch, including its abort signal
    * @returns The result of processing (typically void)
    */
-  handle: (payload: T) => Promise<void>;
+  handle: (notification: T, context: HandlerContext) => Promise<void>;
+}
+
+/**
+ * Metadata carried by commands, queries and notifications.
+ * Fields left out are filled in from the dispatch that publishes or invokes the message.
+ */
+export interface MessageMetadata {
+  /** Unique identifier of the message */
+  messageId?: string;
+  /** Identifier shared by every message of the same causal chain */
+  correlationId?: string;
+  /** Identifier of the message whose handling caused this message */
+  causationId?: string;
+  /** Identifier of the user on whose behalf the message is dispatched */
+  userId?: string;
+  /** Identifier of the tenant the message belongs to */
+  tenantId?: string;
+  /** Arbitrary values carried along the causal chain */
+  items?: Record<string, unknown>;
+}
+
+/**
+ * Ambient context of a dispatch, inherited by the dispatches it causes.
+ */
+export interface DispatchContext {
+  /** Identifier of the message being dispatched */
+  messageId: string;
+  /** Identifier shared by every dispatch of the same causal chain */
+  correlationId: string;
+  /** Identifier of the message whose handling caused this dispatch */
+  causationId?: string;
+  /** Identifier of the user on whose behalf the message is dispatched */
+  userId?: string;
+  /** Identifier of the tenant the message belongs to */
+  tenantId?: string;
+  /** Arbitrary values inherited by nested dispatches */
+  items: Record<string, unknown>;
+}
+
+/**
+ * Context passed by the event bus to middlewares and handlers for each dispatch.
+ */
+export interface HandlerContext extends DispatchContext {
+  /** Signal aborted when the dispatch is cancelled or times out */
+  signal: AbortSignal;
+  /** Strategy of the publish, undefined when invoking a command or query */
+  strategy?: PublishStrategy;
+}
+
+/**
+ * Retry policy applied to a notification handler when it fails.
+ * Delays grow exponentially from `initialDelay` by `multiplier`, capped at `maxDelay`.
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds (defaults to 0) */
+  initialDelay?: number;
+  /** Factor applied to the delay after each retry (defaults to 2) */
+  multiplier?: number;
+  /** Upper bound for the delay between retries in milliseconds */
+  maxDelay?: number;
+  /** When true, each delay is randomized between 0 and its computed value */
+  jitter?: boolean;
+  /**
+   * Decides whether a failed attempt should be retried (defaults to always).
+   * @param error - The error thrown by the handler
+   * @param attempt - The number of the attempt that failed, starting at 1
+   */
+  retryIf?: (error: Error, attempt: number) => boolean;
+}
+
+/**
+ * Result type of a command or query.
+ *
+ * @template M - The type of the command or query
+ */
+export type MessageResult<M> = M extends ICommand<any, infer R>
+  ? R
+  : M extends IQuery<any, infer R>
+  ? R
+  : never;
+
+/**
+ * Type of the message handled by a command, query or notification handler.
+ *
+ * @template H - The type of the handler
+ */
+export type HandledMessage<H> = H extends {
+  handle: (message: infer M, context: HandlerContext) => unknown;
+}
+  ? M
+  : never;
+
+/**
+ * Metadata accepted by command and query handler tokens.
+ *
+ * @template T - The type of the request handler
+ */
+export type RequestHandlerTokenMetadata<T> = Omit<
+  DITokenMetadata<T>,
+  "generics"
+> & {
+  /** Token of the command or query handled by this handler, followed by any other generics */
+  generics?: [DIToken<HandledMessage<T>>, ...DIToken<any>[]];
+};
+
+/**
+ * Metadata accepted by notification handler tokens.
+ *
+ * @template T - The type of the notification handler
+ */
+export type NotificationHandlerTokenMetadata<T> = Omit<
+  DITokenMetadata<T>,
+  "generics"
+> & {
+  /** Tokens of the notifications handled by this handler */
+  generics?: DIToken<HandledMessage<T>>[];
+  /** Retry policy for this handler, overriding the event bus default */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Priority of this handler among the handlers of a notification (defaults to 0).
+   * Handlers with a higher priority run first, unless a before/after constraint says otherwise.
+   */
+  priority?: number;
+  /** Handlers of the same notification this handler must run before */
+  before?: DIToken<INotificationHandler<any>>[];
+  /** Handlers of the same notification this handler must run after */
+  after?: DIToken<INotificationHandler<any>>[];
+};
+
+/**
+ * A problem found while validating a payload.
+ */
+export interface ValidationIssue {
+  /** Human readable description of the problem */
+  message: string;
+  /** Location of the invalid value in the payload, if any */
+  path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
 }
 
+/**
+ * Outcome of a payload validation: the validated (possibly transformed) payload, or the issues found.
+ * Mirrors the result shape of the Standard Schema `validate` function.
+ */
+export type PayloadValidationResult<T> =
+  | { value: T; issues?: undefined }
+  | { issues: ReadonlyArray<ValidationIssue> };
+
+/**
+ * Schema-agnostic payload validator, e.g. wrapping a Zod or Valibot schema.
+ *
+ * @template T - The type of the validated payload
+ * @param payload - The untrusted payload
+ * @returns The validation result
+ */
+export type PayloadValidator<T> = (
+  payload: unknown
+) => PayloadValidationResult<T> | Promise<PayloadValidationResult<T>>;
+
+/**
+ * Metadata accepted by command, query and notification tokens.
+ *
+ * @template T - The type of the message
+ */
+export type MessageTokenMetadata<T> = DITokenMetadata<T> & {
+  /**
+   * Validates the payload of the messages of this token before their middleware pipeline runs.
+   * The validated value replaces the payload.
+   */
+  validate?: PayloadValidator<T extends { payload: infer P } ? P : unknown>;
+};
+
+/**
+ * Token of a command, query or notification, able to build its messages.
+ *
+ * @template T - The type of the message
+ */
+export type MessageDIToken<T> = DIToken<T> & {
+  /**
+   * Builds a message of this token, stamped with a unique message id and the current time.
+   * @param payload - The payload of the message
+   * @param metadata - Metadata of the message, e.g. linking it to the dispatch that caused it
+   * @returns The message
+   */
+  create: (
+    payload: T extends { payload: infer P } ? P : never,
+    metadata?: MessageMetadata
+  ) => T;
+};
+
 /**
  * Represents a command that expects a response.
  * Commands follow the request-response pattern where exactly one handler
@@ -47,6 +254,10 @@ export interface ICommand<T, R> {
   payload: T;
   /** Timestamp when the command was created */
   createdAt: Date;
+  /** Optional metadata linking the command to the dispatch that caused it */
+  metadata?: MessageMetadata;
+  /** Type-level marker of the result type, never set at runtime */
+  readonly __result?: R;
 }
 
 /**
@@ -61,10 +272,12 @@ export interface ICommandHandler<T extends ICommand<any, unknown>> {
   /**
    * Handles a command and returns a result.
    * @param command - The command to process
+   * @param context - The context of the dispatch, including its abort signal
    * @returns A promise that resolves to the command result
    */
   handle: (
-    command: T
+    command: T,
+    context: HandlerContext
   ) => Promise<T extends ICommand<any, infer R> ? R : unknown>;
 }
 
@@ -83,6 +296,10 @@ export interface IQuery<T, R> {
   payload: T;
   /** Timestamp when the query was created */
   createdAt: Date;
+  /** Optional metadata linking the query to the dispatch that caused it */
+  metadata?: MessageMetadata;
+  /** Type-level marker of the result type, never set at runtime */
+  readonly __result?: R;
 }
 
 /**
@@ -97,9 +314,13 @@ export interface IQueryHandler<T extends IQuery<any, unknown>> {
   /**
    * Handles a query and returns a result.
    * @param query - The query to process
+   * @param context - The context of the dispatch, including its abort signal
    * @returns A promise that resolves to the query result
    */
-  handle: (query: T) => Promise<T extends IQuery<any, infer R> ? R : unknown>;
+  handle: (
+    query: T,
+    context: HandlerContext
+  ) => Promise<T extends IQuery<any, infer R> ? R : unknown>;
 }
 
 /**
@@ -115,11 +336,289 @@ export interface IHandlerMiddleware<T, R> {
    * Processes a request and optionally calls the next middleware/handler.
    * @param req - The request object (notification or command)
    * @param next - Function to call the next middleware or handler in the chain
+   * @param context - The context of the dispatch, including its abort signal
    * @returns A promise that resolves to the result of the handler chain
    */
-  handle: (req: T, next: (req: T) => Promise<R>) => Promise<R>;
+  handle: (
+    req: T,
+    next: (req: T) => Promise<R>,
+    context: HandlerContext
+  ) => Promise<R>;
+
+  /**
+   * Optionally wraps each notification handler run by the publishes this middleware applies to,
+   * e.g. to trace or log handlers individually.
+   */
+  handleNotificationHandler?: NotificationHandlerHook<T>;
 }
 
+/**
+ * Wraps the execution of a single notification handler, including its retries.
+ * Not calling `next` skips the handler.
+ *
+ * @template T - The type of the notification
+ * @param notification - The notification being handled
+ * @param handler - The token of the notification handler
+ * @param next - Function running the notification handler
+ * @param context - The context of the publish
+ */
+export type NotificationHandlerHook<T> = (
+  notification: T,
+  handler: DIToken<INotificationHandler<any>>,
+  next: (notification: T) => Promise<void>,
+  context: HandlerContext
+) => Promise<void>;
+
+/**
+ * Middleware wrapping each notification handler individually, under every publish strategy.
+ * Unlike `IHandlerMiddleware`, which wraps the whole fan-out of a publish, it sees the
+ * handler about to run and may log it, retry it, or skip it by not calling `next`.
+ *
+ * @template T - The type of the notification
+ */
+export interface INotificationHandlerMiddleware<T> {
+  /**
+   * Wraps the execution of a notification handler.
+   * @param notification - The notification being handled
+   * @param handler - The token of the notification handler
+   * @param next - Function running the notification handler
+   * @param context - The context of the publish
+   */
+  handle: NotificationHandlerHook<T>;
+}
+
+/**
+ * Strategy used to run the handlers of a published notification.
+ * - `"parallel"`: all handlers run concurrently, the first failure rejects the publish
+ * - `"sequential"`: handlers run one after another, the first failure stops the rest
+ * - `"besteffort"`: all handlers run concurrently and failures are collected
+ */
+export type PublishStrategy = "parallel" | "sequential" | "besteffort";
+
+/**
+ * Outcome of a single notification handler during a publish.
+ */
+export interface NotificationHandlerResult {
+  /** Key of the handler token that was executed */
+  handlerKey: string;
+  /** Whether the handler completed, failed, or was never started (or skipped by a middleware) */
+  status: "fulfilled" | "rejected" | "skipped";
+  /** The error thrown by the handler when the status is "rejected" */
+  error?: Error;
+  /** Number of times the handler was attempted, including retries */
+  attempts: number;
+  /** Time spent running the handler, in milliseconds */
+  duration: number;
+}
+
+/**
+ * Structured outcome of publishing a notification, with one entry per handler.
+ */
+export interface PublishResult {
+  /** Key of the published notification token */
+  notificationKey: string;
+  /** One entry per handler, in handler execution order */
+  results: NotificationHandlerResult[];
+  /** Errors thrown by the failed handlers */
+  errors: Error[];
+  /** True when the notification was buffered by the outbox instead of being dispatched */
+  deferred?: boolean;
+}
+
+/**
+ * Options accepted by {@link IEventBus.invoke} and {@link IEventBus.publish}.
+ */
+export interface DispatchOptions {
+  /** Signal cancelling the dispatch, rejecting it with the signal's reason */
+  signal?: AbortSignal;
+  /** Time in milliseconds after which the dispatch is rejected with a `HandlerTimeoutError` */
+  timeout?: number;
+  /**
+   * Context of the dispatch causing this one, such as the context received by a handler.
+   * Defaults to the ambient context tracked by the `asyncLocalStorage` option.
+   */
+  parent?: DispatchContext;
+  /**
+   * Creates the scope of this dispatch, overriding the `scope` option of the event bus.
+   * Defaults to the scope of the dispatch in progress tracked by the `asyncLocalStorage` option.
+   */
+  scope?: DispatchScopeFactory;
+}
+
+/**
+ * A notification handler subscribed at runtime: a handler token resolved from the container
+ * of each dispatch, a handler or a plain function.
+ *
+ * @template T - The type of the notification
+ */
+export type NotificationSubscriber<T extends INotification<any>> =
+  | DIToken<INotificationHandler<T>>
+  | INotificationHandler<T>
+  | ((notification: T, context: HandlerContext) => void | Promise<void>);
+
+/**
+ * A child scope in which a dispatch resolves its handlers and middlewares,
+ * holding its request-lifetime dependencies such as a transaction or the current user.
+ */
+export interface IDispatchScope {
+  /** Container resolving the handlers and middlewares of the dispatch */
+  container: DIContainer;
+  /** Releases the scope once the dispatch completes, whether it succeeded or not */
+  dispose?(): void | Promise<void>;
+}
+
+/**
+ * Creates the scope of a dispatch.
+ *
+ * @param container - The root container of the event bus
+ * @param context - The context of the dispatch
+ * @returns The scope of the dispatch
+ */
+export type DispatchScopeFactory = (
+  container: DIContainer,
+  context: DispatchContext
+) => IDispatchScope | Promise<IDispatchScope>;
+
+/**
+ * Options accepted by {@link IEventBus.publish}.
+ */
+export interface PublishOptions extends DispatchOptions {
+  /**
+   * When true, the "parallel" and "sequential" strategies resolve to a
+   * {@link PublishResult} and reject with a `PublishError` carrying it when a handler fails.
+   * The "besteffort" strategy always resolves to a {@link PublishResult}.
+   */
+  collectResult?: boolean;
+  /**
+   * Maximum number of handlers of this publish running at once under the
+   * "parallel" and "besteffort" strategies (defaults to no limit).
+   * Once a "parallel" publish fails, queued handlers are skipped.
+   */
+  concurrency?: number;
+}
+
+/**
+ * Storage that keeps a value available across asynchronous calls made within a callback.
+ * Node's `AsyncLocalStorage` from `node:async_hooks` satisfies this interface.
+ *
+ * @template T - The type of the stored value
+ */
+export interface IAsyncLocalStorage<T> {
+  /**
+   * Runs a callback with the given value as the current store.
+   * @param store - The value available to the callback and its asynchronous calls
+   * @param callback - The callback to run
+   * @returns The value returned by the callback
+   */
+  run: <R>(store: T, callback: () => R) => R;
+  /**
+   * Gets the current store.
+   * @returns The current store, or undefined outside of `run`
+   */
+  getStore: () => T | undefined;
+}
+
+/**
+ * Options used to configure event buses created with `createEventBusFactory`.
+ */
+export interface EventBusOptions {
+  /** Default retry policy for notification handlers that do not declare one */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Store receiving the notifications whose handlers exhausted their attempts without the
+   * publish rejecting with their error, as under the "besteffort" strategy
+   * (defaults to an in-memory store keeping the latest 1000 dead letters)
+   */
+  deadLetterStore?: IDeadLetterStore;
+  /**
+   * Storage used to track the dispatch in progress across asynchronous calls,
+   * typically `new AsyncLocalStorage()`. Lets nested dispatches inherit their
+   * context automatically, and is required by the outbox.
+   */
+  asyncLocalStorage?: IAsyncLocalStorage<any>;
+  /**
+   * Creates a child scope for each dispatch. Handlers and middlewares are resolved from the scope,
+   * which is disposed once the dispatch completes (defaults to resolving them from the root container).
+   * Dispatches nested in one tracked by the `asyncLocalStorage` option share its scope.
+   */
+  scope?: DispatchScopeFactory;
+  /** Enables buffering of notifications published during an invoke */
+  outbox?: OutboxOptions;
+  /**
+   * Maximum number of notification handlers running at once across all publishes
+   * (defaults to no limit). Handlers of publishes nested in a handler, found through the
+   * `asyncLocalStorage` option or the `parent` context, run within the slot of that handler
+   * instead of waiting for one of their own.
+   */
+  maxConcurrentHandlers?: number;
+  /** Options of the queue processing notifications published with `publishLater` */
+  queue?: QueueOptions;
+  /** Connects the event bus to the event buses of other processes */
+  transport?: TransportOptions;
+  /**
+   * When true, creating the event bus throws an `EventBusValidationError` if its
+   * validation report finds any wiring problem
+   */
+  strict?: boolean;
+  /**
+   * Codec converting notifications to and from envelopes for the transport
+   * (defaults to a codec registering the notification tokens of the handlers)
+   */
+  codec?: IMessageCodec;
+}
+
+/**
+ * Options of the in-process queue processing notifications published with `publishLater`.
+ */
+export interface QueueOptions {
+  /** Maximum number of queued notifications published at once (defaults to 1) */
+  concurrency?: number;
+  /** Maximum number of notifications waiting in the queue (defaults to no limit) */
+  maxSize?: number;
+  /**
+   * What `publishLater` does when the queue is full: reject with a `QueueFullError`,
+   * or wait until a notification leaves the queue (defaults to "reject")
+   */
+  overflow?: "reject" | "block";
+  /**
+   * Called when publishing a queued notification rejects.
+   * Failed handlers of "besteffort" publishes are recorded as dead letters instead.
+   * @param error - The error the publish rejected with
+   * @param notification - The queued notification
+   */
+  onError?: (
+    error: unknown,
+    notification: INotification<any>
+  ) => void | Promise<void>;
+}
+
+/**
+ * Wiring problems found by inspecting the container of the event bus.
+ * Each list holds token keys.
+ */
+export interface EventBusValidationReport {
+  /** Whether no problem was found */
+  valid: boolean;
+  /** Commands and queries registered in the container without a handler */
+  unhandledRequests: string[];
+  /** Notifications registered in the container without any handler */
+  orphanNotifications: string[];
+  /** Entries of the middleware order that are not registered middlewares */
+  unknownMiddlewares: string[];
+  /** Middlewares whose generics match no known command, query or notification */
+  unreachableMiddlewares: string[];
+}
+
+/**
+ * What `publish` resolves to for a strategy and options:
+ * a {@link PublishResult} for "besteffort" or when `collectResult` is set.
+ */
+export type PublishReturn<S extends PublishStrategy, O> = S extends "besteffort"
+  ? PublishResult
+  : O extends { collectResult: true }
+  ? PublishResult
+  : void;
+
 /**
  * Main event bus interface providing publish-subscribe and command capabilities.
  * The event bus manages the registration and execution of handlers and middlewares.
@@ -132,23 +631,142 @@ export interface IEventBus {
    * @template T - The type of the notification payload
    * @param notification - The notification to publish
    * @param strategy - The publish strategy to use
-   * @returns A promise that resolves when all handlers have completed
+   * @param options - Additional publish options
+   * @returns A promise that resolves when all handlers have completed, with a
+   * {@link PublishResult} for "besteffort" or when `collectResult` is set
    */
-  publish<T, S extends "parallel" | "sequential" | "besteffort">(
+  publish<
+    T,
+    S extends PublishStrategy = "besteffort",
+    O extends PublishOptions = PublishOptions
+  >(
     notification: INotification<T>,
-    strategy?: S
-  ): Promise<S extends "besteffort" ? Error[] : void>;
+    strategy?: S,
+    options?: O
+  ): Promise<PublishReturn<S, O>>;
 
   /**
-   * Invokes a command and returns the result from its handler.
+   * Invokes a command or query and returns the result from its handler.
    * Commands follow request-response pattern with exactly one handler.
    *
-   * @template T - The type of the command payload
-   * @template R - The type of the command result
-   * @param command - The command to invoke
-   * @returns A promise that resolves to the command result
+   * @template M - The type of the command or query, from which the result type is inferred
+   * @param req - The command or query to invoke
+   * @param options - Options to cancel or time out the invoke
+   * @returns A promise that resolves to the command or query result
    */
-  invoke<T, R>(req: ICommand<T, R> | IQuery<T, R>): Promise<R>;
+  invoke<M extends ICommand<any, any> | IQuery<any, any>>(
+    req: M,
+    options?: DispatchOptions
+  ): Promise<MessageResult<M>>;
+
+  /**
+   * Queues a notification to be published in the background, without waiting for its handlers.
+   * The dispatch context is captured when the notification is queued.
+   * Queued notifications are not buffered by the outbox.
+   *
+   * @template T - The type of the notification payload
+   * @param notification - The notification to publish
+   * @param strategy - The publish strategy to use
+   * @param options - Additional publish options
+   * @returns A promise that resolves once the notification is queued
+   * @throws QueueFullError if the queue is full and its overflow behavior is "reject"
+   */
+  publishLater<T>(
+    notification: INotification<T>,
+    strategy?: PublishStrategy,
+    options?: PublishOptions
+  ): Promise<void>;
+
+  /**
+   * Subscribes a notification handler at runtime, alongside the handlers registered in the container.
+   * Subscribed handlers run under every publish strategy, wrapped by the notification handler middlewares,
+   * and are ordered by the `priority`, `before` and `after` metadata of their token, if any.
+   *
+   * @template N - The type of the notification
+   * @param token - The token of the notification to handle
+   * @param subscriber - The handler token, handler or function handling the notification
+   * @returns A function unsubscribing the handler
+   * @throws Error if the ordering constraints of the handler form a cycle, leaving the subscriptions unchanged
+   */
+  subscribe<N extends INotification<any>>(
+    token: DIToken<N>,
+    subscriber: NotificationSubscriber<N>
+  ): () => void;
+
+  /**
+   * Waits until every queued notification has been published.
+   */
+  drain(): Promise<void>;
+
+  /**
+   * Stops accepting queued notifications and receiving notifications from the transport,
+   * then waits until the queued ones have been published.
+   */
+  shutdown(): Promise<void>;
+
+  /**
+   * Inspects the container for wiring problems: commands and queries without a handler,
+   * notifications without handlers, unknown middleware order entries and unreachable middlewares.
+   * Messages are found among the tokens registered in the container and the generics of handlers.
+   *
+   * @returns The validation report
+   */
+  validate(): EventBusValidationReport;
+
+  /**
+   * Describes the routing table of the event bus: the handlers of each known message,
+   * in execution order, and the middlewares applying to it, inherited ones included.
+   *
+   * @returns The routing table
+   */
+  describe(): RoutingTable;
+
+  /**
+   * Dead letters recorded for notification handlers that exhausted their attempts.
+   */
+  deadLetters: IDeadLetterChannel;
+}
+
+/**
+ * Event bus restricted to a declared set of messages, so that dispatching a message the
+ * application does not handle, or expecting the wrong result type, is a compile error.
+ * Cast the resolved event bus to it: `container.resolve(IEventBusToken) as TypedEventBus<AppRequests, AppNotifications>`.
+ *
+ * @template Requests - Union of the commands and queries handled by the application
+ * @template Notifications - Union of the notifications handled by the application
+ */
+export interface TypedEventBus<
+  Requests extends ICommand<any, any> | IQuery<any, any>,
+  Notifications extends INotification<any>
+> extends Omit<IEventBus, "invoke" | "publish" | "publishLater" | "subscribe"> {
+  /** @see IEventBus.invoke */
+  invoke<M extends Requests>(
+    req: M,
+    options?: DispatchOptions
+  ): Promise<MessageResult<M>>;
+
+  /** @see IEventBus.publish */
+  publish<
+    S extends PublishStrategy = "besteffort",
+    O extends PublishOptions = PublishOptions
+  >(
+    notification: Notifications,
+    strategy?: S,
+    options?: O
+  ): Promise<PublishReturn<S, O>>;
+
+  /** @see IEventBus.publishLater */
+  publishLater(
+    notification: Notifications,
+    strategy?: PublishStrategy,
+    options?: PublishOptions
+  ): Promise<void>;
+
+  /** @see IEventBus.subscribe */
+  subscribe<N extends Notifications>(
+    token: DIToken<N>,
+    subscriber: NotificationSubscriber<N>
+  ): () => void;
 }
 
 /**
@@ -199,6 +817,14 @@ export const IQueryHandlerToken =
 export const IHandlerMiddlewareToken =
   createDIToken<IHandlerMiddleware<any, any>>().as("IHandlerMiddleware");
 
+/**
+ * FIoC token representing the base notification handler middleware interface.
+ * Used internally for notification handler middleware discovery and registration.
+ */
+export const INotificationHandlerMiddlewareToken = createDIToken<
+  INotificationHandlerMiddleware<any>
+>().as("INotificationHandlerMiddleware");
+
 /**
  * FIoC token representing the event bus interface.
  * Used to register and resolve the event bus instance from the container.
@@ -208,8 +834,12 @@ export const IEventBusToken = createDIToken<IEventBus>().as("IEventBus");
 /**
  * FIoC token for configuring the order of middleware execution.
  * Register an array of middleware tokens in the desired execution order.
+ * Notification handler middlewares are ordered in the same array, relative to the
+ * `handleNotificationHandler` hooks of the other middlewares.
  */
 export const MiddleWareOrderToken =
-  createDIToken<DIToken<IHandlerMiddleware<any, any>>[]>().as(
-    "MiddleWareOrder"
-  );
+  createDIToken<
+    DIToken<
+      IHandlerMiddleware<any, any> | INotificationHandlerMiddleware<any>
+    >[]
+  >().as("MiddleWareOrder");
@@ -0,0 +1,55 @@
+import type { INotification } from "./IEventBus.js";
+
+/**
+ * An event appended to a stream of the event store.
+ */
+export interface RecordedEvent<
+  E extends INotification<any> = INotification<any>
+> {
+  /** Id of the stream the event belongs to */
+  streamId: string;
+  /** Version of the stream once the event is appended, starting at 1 */
+  version: number;
+  /** Position of the event across all streams, starting at 1 */
+  position: number;
+  /** The event, a notification whose token is its event type */
+  event: E;
+}
+
+/**
+ * Append-only storage for streams of events. Implement this interface to
+ * persist events somewhere other than memory.
+ */
+export interface IEventStore {
+  /**
+   * Appends events to a stream, atomically.
+   * @param streamId - The id of the stream
+   * @param events - The events to append, in order
+   * @param expectedVersion - The version the stream must be at, 0 for a stream that must not exist yet.
+   * Omit it to append whatever the version of the stream.
+   * @returns The recorded events
+   * @throws WrongExpectedVersionError if the stream is not at the expected version
+   */
+  append: (
+    streamId: string,
+    events: INotification<any>[],
+    expectedVersion?: number
+  ) => Promise<RecordedEvent[]>;
+  /**
+   * Reads the events of a stream in version order.
+   * @param streamId - The id of the stream
+   * @param fromVersion - Only read the events after this version (defaults to 0, the whole stream)
+   * @returns The recorded events of the stream
+   */
+  readStream: (
+    streamId: string,
+    fromVersion?: number
+  ) => Promise<RecordedEvent[]>;
+  /**
+   * Reads the events of every stream in position order.
+   * @param fromPosition - Only read the events after this position (defaults to 0, every event)
+   * @param limit - Maximum number of events to read (defaults to no limit)
+   * @returns The recorded events
+   */
+  readAll: (fromPosition?: number, limit?: number) => Promise<RecordedEvent[]>;
+}
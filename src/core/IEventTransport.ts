@@ -0,0 +1,42 @@
+import type { MessageEnvelope } from "./IMessageCodec.js";
+
+/**
+ * Carries notifications between event buses running in different processes or threads.
+ * Implement this interface to bridge the event bus to a message broker.
+ */
+export interface IEventTransport {
+  /**
+   * Sends a notification to the remote event buses.
+   * @param envelope - The envelope of the notification to send
+   */
+  send: (envelope: MessageEnvelope) => Promise<void>;
+  /**
+   * Listens to the notifications sent by the remote event buses.
+   * @param receive - Called with every received notification
+   * @returns A function that stops listening
+   */
+  subscribe: (
+    receive: (envelope: MessageEnvelope) => Promise<void>
+  ) => () => void;
+}
+
+/**
+ * Options connecting the event bus to a transport.
+ * Notifications are converted to and from envelopes by the codec of the event bus.
+ * Received notifications are published to the local handlers with the "besteffort" strategy.
+ */
+export interface TransportOptions {
+  /** The transport carrying the notifications */
+  transport: IEventTransport;
+  /**
+   * Keys of the notification tokens sent through the transport when published,
+   * or a function choosing them (defaults to none)
+   */
+  outgoing?: string[] | ((tokenKey: string) => boolean);
+  /**
+   * Called when a received notification cannot be dispatched locally.
+   * @param error - The error raised while dispatching the notification
+   * @param envelope - The envelope of the received notification
+   */
+  onError?: (error: unknown, envelope: MessageEnvelope) => void | Promise<void>;
+}
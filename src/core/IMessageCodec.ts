@@ -0,0 +1,98 @@
+import type { DIToken } from "@fioc/core";
+import type {
+  ICommand,
+  INotification,
+  IQuery,
+  MessageMetadata,
+} from "./IEventBus.js";
+
+/**
+ * Any message dispatched by the event bus.
+ */
+export type Message =
+  | INotification<any>
+  | ICommand<any, any>
+  | IQuery<any, any>;
+
+/**
+ * A message in a JSON serializable form, suitable for persisting, queueing or sending over the wire.
+ */
+export interface MessageEnvelope {
+  /** Key of the message token */
+  type: string;
+  /** Version of the payload schema */
+  version: number;
+  /** The serialized payload of the message */
+  payload: unknown;
+  /** Timestamp when the message was created, as an ISO string */
+  createdAt: string;
+  /** Metadata of the message */
+  metadata?: MessageMetadata;
+}
+
+/**
+ * Upgrades a payload from one version of its schema to the next.
+ *
+ * @param payload - The payload in the previous version
+ * @returns The payload in the next version
+ */
+export type Upcaster = (payload: any) => unknown;
+
+/**
+ * How the messages of a token are encoded and decoded.
+ */
+export interface MessageCodecOptions {
+  /** Current version of the payload schema (defaults to 1) */
+  version?: number;
+  /**
+   * Upcasters keyed by the version they upgrade from:
+   * `upcasters[1]` turns a version 1 payload into a version 2 payload
+   */
+  upcasters?: Record<number, Upcaster>;
+  /**
+   * Converts the payload into a JSON serializable value (defaults to the payload itself).
+   * @param payload - The payload of the message
+   */
+  serialize?: (payload: any) => unknown;
+  /**
+   * Rebuilds the payload from its serialized value, once upcasted to the current version
+   * (defaults to the value itself).
+   * @param data - The serialized payload
+   */
+  deserialize?: (data: any) => unknown;
+}
+
+/**
+ * Registry of codecs keyed by token key, converting messages to and from envelopes.
+ */
+export interface IMessageCodec {
+  /**
+   * Registers how the messages of a token are encoded and decoded.
+   * @param token - The token of the messages
+   * @param options - The version, upcasters and payload conversions of the messages
+   * @returns The codec, for chaining
+   */
+  register: (
+    token: DIToken<any>,
+    options?: MessageCodecOptions
+  ) => IMessageCodec;
+  /**
+   * Tells whether messages of the given type can be decoded.
+   * @param type - Key of the message token
+   */
+  has: (type: string) => boolean;
+  /**
+   * Converts a message into an envelope. Messages of unregistered tokens are
+   * encoded as version 1 with their payload as is.
+   * @param message - The message to encode
+   * @returns The envelope of the message
+   */
+  encode: (message: Message) => MessageEnvelope;
+  /**
+   * Rebuilds a message from its envelope, upcasting its payload to the current version.
+   * @param envelope - The envelope to decode
+   * @returns The decoded message, carrying the registered token
+   * @throws Error if the type is not registered, the version is unknown, or an upcaster is missing
+   */
+  decode: <M extends Message = Message>(envelope: MessageEnvelope) => M;
+}
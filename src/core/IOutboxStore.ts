@@ -0,0 +1,80 @@
+import type { PublishOptions, PublishStrategy } from "./IEventBus.js";
+import type { MessageEnvelope } from "./IMessageCodec.js";
+
+/**
+ * The options of a buffered notification that survive storage. Options that cannot be
+ * serialized, such as the abort signal, the parent context or the scope, are not kept.
+ */
+export type OutboxPublishOptions = Pick<
+  PublishOptions,
+  "collectResult" | "concurrency" | "timeout"
+>;
+
+/**
+ * A notification buffered by the outbox until its unit of work completes.
+ * Entries are JSON serializable, so that a store can persist them as they are.
+ */
+export interface OutboxEntry {
+  /** Id of the entry, the message id of the buffered notification */
+  id: string;
+  /** The buffered notification, encoded by the codec of the event bus */
+  envelope: MessageEnvelope;
+  /** The strategy the notification was published with */
+  strategy: PublishStrategy;
+  /** The serializable options the notification was published with */
+  options?: OutboxPublishOptions;
+}
+
+/**
+ * Storage for notifications buffered by the outbox, grouped by unit of work.
+ * Implement this interface to back the outbox with a database table.
+ */
+export interface IOutboxStore {
+  /**
+   * Buffers a notification for a unit of work.
+   * @param unitOfWorkId - The id of the unit of work
+   * @param entry - The notification to buffer
+   */
+  add: (unitOfWorkId: string, entry: OutboxEntry) => Promise<void>;
+  /**
+   * Lists the notifications buffered for a unit of work, in publish order.
+   * @param unitOfWorkId - The id of the unit of work
+   * @returns The buffered notifications
+   */
+  list: (unitOfWorkId: string) => Promise<OutboxEntry[]>;
+  /**
+   * Removes a notification once it has been dispatched.
+   * @param unitOfWorkId - The id of the unit of work
+   * @param id - The id of the entry
+   */
+  remove: (unitOfWorkId: string, id: string) => Promise<void>;
+  /**
+   * Removes every notification buffered for a unit of work.
+   * @param unitOfWorkId - The id of the unit of work
+   */
+  clear: (unitOfWorkId: string) => Promise<void>;
+}
+
+/**
+ * Options enabling the transactional outbox. Notifications published while an
+ * `invoke` is in progress are buffered and only dispatched once it resolves.
+ */
+export interface OutboxOptions {
+  /** Store for the buffered notifications (defaults to an in-memory store) */
+  store?: IOutboxStore;
+  /**
+   * Called with the buffered notifications when the invoke rejects, before they are discarded.
+   * Notifications its handler publishes once it rejected, e.g. after a timeout, are reported
+   * the same way and their publish rejects.
+   * @param entries - The discarded notifications
+   * @param error - The error the invoke rejected with
+   */
+  onDiscard?: (entries: OutboxEntry[], error: unknown) => void | Promise<void>;
+  /**
+   * Called when dispatching a buffered notification rejects once the invoke resolved.
+   * The remaining notifications are still dispatched and the invoke resolves with its result.
+   * @param entry - The notification that failed to dispatch
+   * @param error - The error the publish rejected with
+   */
+  onFlushError?: (entry: OutboxEntry, error: unknown) => void | Promise<void>;
+}
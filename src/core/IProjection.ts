@@ -0,0 +1,88 @@
+import type { DIToken } from "@fioc/core";
+import type { INotification } from "./IEventBus.js";
+import type { IEventStore, RecordedEvent } from "./IEventStore.js";
+
+/**
+ * A read model built from events. Like the generics of a notification handler token, the handled
+ * tokens also match the events whose token implements them, and keys containing `*` are patterns.
+ *
+ * @template T - The type of the handled events
+ */
+export interface IProjection<
+  T extends INotification<any> = INotification<any>
+> {
+  /** Unique name of the projection, identifying its checkpoint */
+  name: string;
+  /** Tokens of the events the projection handles */
+  handles: DIToken<any>[];
+  /**
+   * Applies an event to the read model.
+   * @param event - The event
+   * @param recorded - The event as recorded, with its stream, version and position
+   */
+  handle: (event: T, recorded: RecordedEvent<T>) => void | Promise<void>;
+  /**
+   * Clears the read model before it is rebuilt from the first event.
+   */
+  reset?: () => void | Promise<void>;
+}
+
+/**
+ * Source of the events fed to projections, such as an event store or a recorded log.
+ */
+export type IProjectionSource = Pick<IEventStore, "readAll">;
+
+/**
+ * Storage for the position of the last event each projection handled.
+ * Implement this interface to persist checkpoints alongside the read models.
+ */
+export interface ICheckpointStore {
+  /**
+   * Gets the checkpoint of a projection.
+   * @param name - Name of the projection
+   * @returns The position of the last handled event, 0 when none was handled
+   */
+  get: (name: string) => Promise<number>;
+  /**
+   * Stores the checkpoint of a projection.
+   * @param name - Name of the projection
+   * @param position - The position of the last handled event
+   */
+  set: (name: string, position: number) => Promise<void>;
+}
+
+/**
+ * Options of a projection runner.
+ */
+export interface ProjectionRunnerOptions {
+  /** Source of the events */
+  source: IProjectionSource;
+  /** Store for the checkpoint of the projection (defaults to an in-memory store) */
+  checkpointStore?: ICheckpointStore;
+  /** Number of events read from the source at once (defaults to 100) */
+  batchSize?: number;
+}
+
+/**
+ * Feeds a projection the events of its source after its checkpoint.
+ */
+export interface IProjectionRunner {
+  /**
+   * Feeds the projection every event after its checkpoint, storing the checkpoint after each event.
+   * Runs started while one is in progress share it.
+   * @returns The number of events read from the source
+   * @throws The error of the projection, once the checkpoint of the events handled before it is stored
+   */
+  run: () => Promise<number>;
+  /**
+   * Resets the projection and its checkpoint, then runs it from the first event.
+   * Waits for the run in progress, and runs started during the rebuild share it.
+   * @returns The number of events read from the source
+   */
+  rebuild: () => Promise<number>;
+  /**
+   * Gets the checkpoint of the projection.
+   * @returns The position of the last handled event
+   */
+  checkpoint: () => Promise<number>;
+}
@@ -0,0 +1,28 @@
+/**
+ * Kind of message routed by the event bus.
+ */
+export type MessageKind = "command" | "query" | "notification";
+
+/**
+ * How the event bus routes a single message token.
+ */
+export interface MessageRoute {
+  /** Key of the message token */
+  key: string;
+  /** Whether the message is a command, a query or a notification */
+  kind: MessageKind;
+  /** Keys of the handler tokens, in execution order for notifications */
+  handlers: string[];
+  /** Keys of the middleware tokens applying to the message, inherited ones included, in execution order */
+  middlewares: string[];
+}
+
+/**
+ * The routing table of an event bus, as returned by `describe`.
+ */
+export interface RoutingTable {
+  /** Routes of the known messages, sorted by message key */
+  messages: MessageRoute[];
+  /** Keys of the middleware tokens of the middleware order */
+  middlewareOrder: string[];
+}
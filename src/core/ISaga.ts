@@ -0,0 +1,218 @@
+import type { DIToken } from "@fioc/core";
+import type {
+  DispatchOptions,
+  HandlerContext,
+  ICommand,
+  IEventBus,
+  INotification,
+  IQuery,
+  MessageResult,
+} from "./IEventBus.js";
+
+/**
+ * Status of a saga instance.
+ * - "running": waiting for its next notification
+ * - "completed": the workflow finished
+ * - "compensated": a step failed and every compensation ran
+ * - "failed": a step failed and a compensation failed too
+ */
+export type SagaStatus = "running" | "completed" | "compensated" | "failed";
+
+/**
+ * A notification scheduled by a saga, published once its timeout elapses.
+ */
+export interface SagaTimeout {
+  /** Unique identifier of the timeout */
+  id: string;
+  /** The notification published once the timeout elapses */
+  notification: INotification<any>;
+  /** When the timeout elapses */
+  dueAt: Date;
+}
+
+/**
+ * The persisted state of a running workflow.
+ *
+ * @template S - The type of the state of the saga
+ */
+export interface SagaInstance<S = any> {
+  /** Unique identifier of the instance */
+  id: string;
+  /** Name of the saga the instance belongs to */
+  sagaName: string;
+  /** The key correlating the notifications of the instance */
+  correlationKey: string;
+  /** The state of the workflow */
+  state: S;
+  /** The status of the instance */
+  status: SagaStatus;
+  /** Commands undoing the completed steps, in the order they were registered */
+  compensations: ICommand<any, any>[];
+  /** Notifications scheduled by the instance and not published yet */
+  timeouts: SagaTimeout[];
+  /** The error that failed the instance */
+  error?: Error;
+}
+
+/**
+ * Storage for saga instances. Implement this interface to persist sagas
+ * somewhere other than memory.
+ */
+export interface ISagaStore {
+  /**
+   * Finds the instance of a saga for a correlation key.
+   * @param sagaName - Name of the saga
+   * @param correlationKey - The correlation key
+   * @returns The instance, or undefined if none was started
+   */
+  find: (
+    sagaName: string,
+    correlationKey: string
+  ) => Promise<SagaInstance | undefined>;
+  /**
+   * Stores an instance, replacing any stored instance with the same id.
+   * @param instance - The instance to store
+   */
+  save: (instance: SagaInstance) => Promise<void>;
+  /**
+   * Lists the instances of a saga, or of every saga.
+   * @param sagaName - Only list the instances of this saga
+   * @returns The instances
+   */
+  list: (sagaName?: string) => Promise<SagaInstance[]>;
+}
+
+/**
+ * What a saga step can do with its instance while handling a notification.
+ *
+ * @template S - The type of the state of the saga
+ */
+export interface SagaContext<S> {
+  /** The instance handling the notification */
+  readonly instance: Readonly<SagaInstance<S>>;
+  /** The state of the instance, which the step may mutate */
+  state: S;
+  /** The context of the dispatch of the notification */
+  readonly handlerContext: HandlerContext;
+  /**
+   * Invokes a command or query, caused by the handled notification.
+   * @param request - The command or query to invoke
+   * @param options - Options of the invoke
+   * @returns The result of the command or query
+   */
+  invoke: <M extends ICommand<any, any> | IQuery<any, any>>(
+    request: M,
+    options?: DispatchOptions
+  ) => Promise<MessageResult<M>>;
+  /**
+   * Registers a command undoing the step, invoked if a later step fails.
+   * Compensations run in the reverse order of their registration.
+   * @param command - The compensating command
+   */
+  compensateWith: (command: ICommand<any, any>) => void;
+  /**
+   * Schedules a notification, published once the delay elapses unless the saga ends first.
+   * @param notification - The notification to publish, typically correlated with the saga
+   * @param delay - The delay in milliseconds
+   * @returns The id of the timeout
+   */
+  schedule: (notification: INotification<any>, delay: number) => string;
+  /**
+   * Cancels a scheduled notification.
+   * @param timeoutId - The id of the timeout
+   */
+  cancelTimeout: (timeoutId: string) => void;
+  /**
+   * Completes the saga, cancelling its scheduled notifications.
+   */
+  complete: () => void;
+}
+
+/**
+ * A step of a saga, handling a notification of the workflow.
+ *
+ * @template S - The type of the state of the saga
+ * @template N - The type of the handled notification
+ */
+export interface SagaStep<
+  S,
+  N extends INotification<any> = INotification<any>
+> {
+  /** Token of the handled notification */
+  token: DIToken<N>;
+  /**
+   * Extracts the key correlating the notification with its saga instance.
+   * @param notification - The notification
+   * @returns The correlation key
+   */
+  correlate: (notification: N) => string;
+  /**
+   * Handles the notification. Throwing fails the saga, running its compensations.
+   * @param notification - The notification
+   * @param saga - The saga instance handling the notification
+   * @returns The next state, or nothing to keep the (possibly mutated) state
+   */
+  handle: (
+    notification: N,
+    saga: SagaContext<S>
+  ) => S | void | Promise<S | void>;
+}
+
+/**
+ * A long-running workflow reacting to notifications.
+ *
+ * @template S - The type of the state of the saga
+ */
+export interface SagaDefinition<S = any> {
+  /** Unique name of the saga */
+  name: string;
+  /** Tokens of the notifications starting a new instance when none is correlated */
+  startedBy: DIToken<INotification<any>>[];
+  /**
+   * Creates the state of a new instance.
+   * @param correlationKey - The correlation key of the instance
+   * @returns The initial state
+   */
+  initialState: (correlationKey: string) => S;
+  /** The steps of the saga, one per handled notification */
+  steps: SagaStep<S, any>[];
+}
+
+/**
+ * Options of a saga manager.
+ */
+export interface SagaManagerOptions {
+  /** Event bus the sagas subscribe to, invoke commands and publish timeouts through */
+  eventBus: Pick<IEventBus, "subscribe" | "invoke" | "publish">;
+  /** The sagas to run */
+  sagas: SagaDefinition[];
+  /** Store for the saga instances (defaults to an in-memory store) */
+  store?: ISagaStore;
+  /**
+   * Called when publishing the notification of an elapsed timeout fails.
+   * @param error - The error publishing the notification
+   * @param timeout - The elapsed timeout
+   */
+  onTimeoutError?: (error: unknown, timeout: SagaTimeout) => void;
+  /**
+   * Called when a step queued behind the work in progress on its instance fails,
+   * since the publish of its notification no longer waits for it.
+   * @param error - The error thrown by the step
+   * @param notification - The notification handled by the step
+   */
+  onStepError?: (error: unknown, notification: INotification<any>) => void;
+}
+
+/**
+ * Runs sagas by subscribing their steps to the event bus.
+ */
+export interface ISagaManager {
+  /**
+   * Subscribes the steps of the sagas and re-arms the timeouts of the stored running instances.
+   */
+  start: () => Promise<void>;
+  /**
+   * Unsubscribes the steps of the sagas and disarms their timeouts.
+   */
+  stop: () => void;
+}
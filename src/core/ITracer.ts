@@ -0,0 +1,72 @@
+import { createDIToken } from "@fioc/core";
+
+/**
+ * Value of a span attribute.
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Attributes recorded on a span, keyed by attribute name.
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+/**
+ * Status of a span, following the OpenTelemetry status codes.
+ */
+export type SpanStatus = "unset" | "ok" | "error";
+
+/**
+ * A unit of work being traced.
+ * Mirrors the subset of the OpenTelemetry `Span` API used by the tracing middleware.
+ */
+export interface ISpan {
+  /**
+   * Sets an attribute on the span.
+   * @param key - The attribute name
+   * @param value - The attribute value
+   */
+  setAttribute: (key: string, value: SpanAttributeValue) => void;
+  /**
+   * Records an error thrown while the span was active.
+   * @param error - The error to record
+   */
+  recordException: (error: Error) => void;
+  /**
+   * Sets the status of the span.
+   * @param status - The status of the span
+   */
+  setStatus: (status: SpanStatus) => void;
+  /**
+   * Ends the span. No further changes are expected once it has ended.
+   */
+  end: () => void;
+}
+
+/**
+ * Options for starting a span.
+ */
+export interface SpanOptions {
+  /** The parent of the span, if any */
+  parent?: ISpan;
+  /** Attributes set when the span starts */
+  attributes?: SpanAttributes;
+}
+
+/**
+ * Creates spans. Implement this interface to bridge the tracing middleware to
+ * OpenTelemetry or any other tracing backend.
+ */
+export interface ITracer {
+  /**
+   * Starts a new span.
+   * @param name - The name of the span
+   * @param options - The parent and initial attributes of the span
+   * @returns The started span
+   */
+  startSpan: (name: string, options?: SpanOptions) => ISpan;
+}
+
+/**
+ * Token for the tracer used by the tracing middleware.
+ */
+export const ITracerToken = createDIToken<ITracer>().as("ITracer");
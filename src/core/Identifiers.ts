@@ -0,0 +1,8 @@
+/**
+ * Generates a unique identifier, using `crypto.randomUUID` when the runtime provides it.
+ *
+ * @returns A unique identifier string
+ */
+export const generateId = (): string =>
+  globalThis.crypto?.randomUUID?.() ??
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
@@ -0,0 +1,20 @@
+import { ICheckpointStore } from "./IProjection.js";
+
+/**
+ * Creates a checkpoint store that keeps checkpoints in memory.
+ * This is the store used by projection runners when none is configured.
+ *
+ * @returns An in-memory checkpoint store
+ */
+export function createInMemoryCheckpointStore(): ICheckpointStore {
+  const checkpoints = new Map<string, number>();
+
+  return {
+    async get(name) {
+      return checkpoints.get(name) ?? 0;
+    },
+    async set(name, position) {
+      checkpoints.set(name, position);
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import {
+  DeadLetter,
+  DeadLetterFilter,
+  IDeadLetterStore,
+  InMemoryDeadLetterStoreOptions,
+} from "./IDeadLetterStore.js";
+
+/**
+ * Creates a dead letter store that keeps dead letters in memory.
+ * This is the store used by the event bus when none is configured.
+ * Once full, adding a dead letter evicts the oldest one.
+ *
+ * @param options - The maximum number of dead letters kept
+ * @returns An in-memory dead letter store
+ */
+export function createInMemoryDeadLetterStore(
+  options: InMemoryDeadLetterStoreOptions = {}
+): IDeadLetterStore {
+  const maxSize = options.maxSize ?? 1000;
+  const deadLetters = new Map<string, DeadLetter>();
+
+  const matches = (deadLetter: DeadLetter, filter: DeadLetterFilter) =>
+    (filter.notificationKey === undefined ||
+      deadLetter.notification.token.key === filter.notificationKey) &&
+    (filter.handlerKey === undefined ||
+      deadLetter.handlerKey === filter.handlerKey);
+
+  return {
+    async add(deadLetter) {
+      if (!deadLetters.has(deadLetter.id) && deadLetters.size >= maxSize) {
+        deadLetters.delete(deadLetters.keys().next().value!);
+      }
+
+      deadLetters.set(deadLetter.id, deadLetter);
+    },
+    async get(id) {
+      return deadLetters.get(id);
+    },
+    async list(filter = {}) {
+      return Array.from(deadLetters.values()).filter((deadLetter) =>
+        matches(deadLetter, filter)
+      );
+    },
+    async remove(id) {
+      deadLetters.delete(id);
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { IEventStore, RecordedEvent } from "./IEventStore.js";
+import { WrongExpectedVersionError } from "./EventBusErrors.js";
+
+/**
+ * Creates an event store that keeps events in memory.
+ *
+ * @returns An in-memory event store
+ */
+export function createInMemoryEventStore(): IEventStore {
+  const events: RecordedEvent[] = [];
+  const streams = new Map<string, RecordedEvent[]>();
+
+  return {
+    async append(streamId, appended, expectedVersion) {
+      const stream = streams.get(streamId) ?? [];
+
+      if (expectedVersion !== undefined && expectedVersion !== stream.length) {
+        throw new WrongExpectedVersionError(
+          streamId,
+          expectedVersion,
+          stream.length
+        );
+      }
+
+      const recorded = appended.map((event, index) => ({
+        streamId,
+        version: stream.length + index + 1,
+        position: events.length + index + 1,
+        event,
+      }));
+
+      events.push(...recorded);
+      streams.set(streamId, [...stream, ...recorded]);
+
+      return recorded;
+    },
+    async readStream(streamId, fromVersion = 0) {
+      return (streams.get(streamId) ?? []).slice(fromVersion);
+    },
+    async readAll(fromPosition = 0, limit) {
+      return events.slice(
+        fromPosition,
+        limit === undefined ? undefined : fromPosition + limit
+      );
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { IOutboxStore, OutboxEntry } from "./IOutboxStore.js";
+
+/**
+ * Creates an outbox store that keeps buffered notifications in memory.
+ * This is the store used by the outbox when none is configured.
+ *
+ * @returns An in-memory outbox store
+ */
+export function createInMemoryOutboxStore(): IOutboxStore {
+  const entries = new Map<string, OutboxEntry[]>();
+
+  return {
+    async add(unitOfWorkId, entry) {
+      entries.set(unitOfWorkId, [...(entries.get(unitOfWorkId) ?? []), entry]);
+    },
+    async list(unitOfWorkId) {
+      return [...(entries.get(unitOfWorkId) ?? [])];
+    },
+    async remove(unitOfWorkId, id) {
+      const remaining = (entries.get(unitOfWorkId) ?? []).filter(
+        (entry) => entry.id !== id
+      );
+
+      if (remaining.length) {
+        entries.set(unitOfWorkId, remaining);
+      } else {
+        entries.delete(unitOfWorkId);
+      }
+    },
+    async clear(unitOfWorkId) {
+      entries.delete(unitOfWorkId);
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import { ISagaStore, SagaInstance } from "./ISaga.js";
+
+/**
+ * Creates a saga store that keeps instances in memory.
+ * This is the store used by saga managers when none is configured.
+ *
+ * @returns An in-memory saga store
+ */
+export function createInMemorySagaStore(): ISagaStore {
+  const instances = new Map<string, SagaInstance>();
+
+  return {
+    async find(sagaName, correlationKey) {
+      return [...instances.values()].find(
+        (instance) =>
+          instance.sagaName === sagaName &&
+          instance.correlationKey === correlationKey
+      );
+    },
+    async save(instance) {
+      instances.set(instance.id, instance);
+    },
+    async list(sagaName) {
+      return [...instances.values()].filter(
+        (instance) => !sagaName || instance.sagaName === sagaName
+      );
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import {
+  ISpan,
+  ITracer,
+  SpanAttributes,
+  SpanOptions,
+  SpanStatus,
+} from "./ITracer.js";
+import { generateId } from "./Identifiers.js";
+
+/**
+ * A span recorded by the in-memory tracer.
+ */
+export interface RecordedSpan extends ISpan {
+  /** Unique identifier of the span */
+  id: string;
+  /** The name of the span */
+  name: string;
+  /** Identifier of the parent span, if any */
+  parentId?: string;
+  /** The attributes of the span */
+  attributes: SpanAttributes;
+  /** The status of the span */
+  status: SpanStatus;
+  /** Errors recorded on the span */
+  exceptions: Error[];
+  /** Whether the span has ended */
+  ended: boolean;
+}
+
+/**
+ * A tracer keeping the spans it creates in memory, useful for tests and debugging.
+ */
+export interface InMemoryTracer extends ITracer {
+  /** The spans started by this tracer, in start order */
+  readonly spans: RecordedSpan[];
+  /**
+   * Removes every recorded span.
+   */
+  reset: () => void;
+}
+
+/**
+ * Creates a tracer that records its spans in memory.
+ *
+ * @returns An in-memory tracer
+ */
+export function createInMemoryTracer(): InMemoryTracer {
+  const spans: RecordedSpan[] = [];
+
+  return {
+    spans,
+    startSpan(name: string, options?: SpanOptions) {
+      const span: RecordedSpan = {
+        id: generateId(),
+        name,
+        parentId: (options?.parent as RecordedSpan | undefined)?.id,
+        attributes: { ...options?.attributes },
+        status: "unset",
+        exceptions: [],
+        ended: false,
+        setAttribute(key, value) {
+          span.attributes[key] = value;
+        },
+        recordException(error) {
+          span.exceptions.push(error);
+        },
+        setStatus(status) {
+          span.status = status;
+        },
+        end() {
+          span.ended = true;
+        },
+      };
+
+      spans.push(span);
+      return span;
+    },
+    reset() {
+      spans.length = 0;
+    },
+  };
+}
+
+/**
+ * Creates a tracer whose spans record nothing.
+ * Use it to disable tracing without removing the tracing middleware.
+ *
+ * @returns A no-op tracer
+ */
+export function createNoopTracer(): ITracer {
+  const span: ISpan = {
+    setAttribute() {},
+    recordException() {},
+    setStatus() {},
+    end() {},
+  };
+
+  return {
+    startSpan: () => span,
+  };
+}
@@ -0,0 +1,46 @@
+import { IEventTransport } from "./IEventTransport.js";
+import { MessageEnvelope } from "./IMessageCodec.js";
+
+/**
+ * Creates two connected in-memory transports: notifications sent through one are received
+ * by the other, like the two ports of a `MessageChannel`. Messages are cloned and delivered
+ * asynchronously, so that event buses wired this way behave as if in separate processes.
+ *
+ * @returns The two ends of the in-memory channel
+ */
+export function createInMemoryTransportPair(): [
+  IEventTransport,
+  IEventTransport
+] {
+  const receivers: [
+    Set<(envelope: MessageEnvelope) => Promise<void>>,
+    Set<(envelope: MessageEnvelope) => Promise<void>>
+  ] = [new Set(), new Set()];
+
+  const createEnd = (
+    own: Set<(envelope: MessageEnvelope) => Promise<void>>,
+    remote: Set<(envelope: MessageEnvelope) => Promise<void>>
+  ): IEventTransport => ({
+    async send(envelope) {
+      const clone = structuredClone(envelope);
+
+      setTimeout(() => {
+        remote.forEach((receive) => {
+          // Failures are reported by the receiving event bus
+          receive(clone).catch(() => undefined);
+        });
+      });
+    },
+    subscribe(receive) {
+      own.add(receive);
+      return () => {
+        own.delete(receive);
+      };
+    },
+  });
+
+  return [
+    createEnd(receivers[0], receivers[1]),
+    createEnd(receivers[1], receivers[0]),
+  ];
+}
@@ -0,0 +1,79 @@
+import type { DIToken } from "@fioc/core";
+import { IMessageCodec, MessageCodecOptions } from "./IMessageCodec.js";
+
+/**
+ * Creates a message codec registry.
+ *
+ * @returns An empty message codec registry
+ */
+export function createMessageCodec(): IMessageCodec {
+  const registrations = new Map<
+    string,
+    { token: DIToken<any>; options: MessageCodecOptions }
+  >();
+
+  const codec: IMessageCodec = {
+    register(token, options = {}) {
+      registrations.set(token.key, { token, options });
+      return codec;
+    },
+    has: (type) => registrations.has(type),
+    encode(message) {
+      const options = registrations.get(message.token.key)?.options ?? {};
+
+      return {
+        type: message.token.key,
+        version: options.version ?? 1,
+        payload: options.serialize
+          ? options.serialize(message.payload)
+          : message.payload,
+        createdAt: message.createdAt.toISOString(),
+        ...(message.metadata && { metadata: message.metadata }),
+      };
+    },
+    decode(envelope) {
+      const registration = registrations.get(envelope.type);
+
+      if (!registration) {
+        throw new Error(
+          `No codec registered for message type ${envelope.type}`
+        );
+      }
+
+      const { token, options } = registration;
+      const currentVersion = options.version ?? 1;
+
+      if (envelope.version > currentVersion) {
+        throw new Error(
+          `Message type ${envelope.type} version ${envelope.version} is newer than the current version ${currentVersion}`
+        );
+      }
+
+      let payload = envelope.payload;
+      for (
+        let version = envelope.version;
+        version < currentVersion;
+        version++
+      ) {
+        const upcaster = options.upcasters?.[version];
+
+        if (!upcaster) {
+          throw new Error(
+            `Missing upcaster for message type ${envelope.type} from version ${version}`
+          );
+        }
+
+        payload = upcaster(payload);
+      }
+
+      return {
+        token,
+        payload: options.deserialize ? options.deserialize(payload) : payload,
+        createdAt: new Date(envelope.createdAt),
+        ...(envelope.metadata && { metadata: envelope.metadata }),
+      } as any;
+    },
+  };
+
+  return codec;
+}
@@ -0,0 +1,65 @@
+import { IEventTransport } from "./IEventTransport.js";
+import { MessageEnvelope } from "./IMessageCodec.js";
+
+/**
+ * The subset of the Node `worker_threads` `MessagePort` API used by the transport.
+ * Satisfied by `MessagePort`, `parentPort` and `Worker`.
+ */
+export interface MessagePortLike {
+  /**
+   * Posts a message to the other end of the port.
+   * @param message - The message to post
+   */
+  postMessage(message: unknown): void;
+  /**
+   * Adds a listener for the messages posted by the other end of the port.
+   * @param event - The "message" event
+   * @param listener - The listener receiving the messages
+   */
+  on(event: "message", listener: (message: unknown) => void): unknown;
+  /**
+   * Removes a listener added with `on`.
+   * @param event - The "message" event
+   * @param listener - The listener to remove
+   */
+  off(event: "message", listener: (message: unknown) => void): unknown;
+}
+
+/**
+ * Tag identifying the messages of the transport, so that the port can carry other messages.
+ */
+const TRANSPORT_MESSAGE_KIND = "@fioc/event-bus:notification";
+
+/**
+ * Creates a transport exchanging notifications over a `worker_threads` message port,
+ * e.g. between the main thread and a worker.
+ *
+ * @param port - The message port connected to the remote event bus
+ * @returns A message port transport
+ */
+export function createMessagePortTransport(
+  port: MessagePortLike
+): IEventTransport {
+  return {
+    async send(envelope) {
+      port.postMessage({ kind: TRANSPORT_MESSAGE_KIND, envelope });
+    },
+    subscribe(receive) {
+      const listener = (data: unknown) => {
+        const message = data as
+          | { kind?: unknown; envelope?: MessageEnvelope }
+          | undefined;
+
+        if (message?.kind === TRANSPORT_MESSAGE_KIND && message.envelope) {
+          // Failures are reported by the receiving event bus
+          receive(message.envelope).catch(() => undefined);
+        }
+      };
+
+      port.on("message", listener);
+      return () => {
+        port.off("message", listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,40 @@
+const patternExpressions = new Map<string, RegExp>();
+
+/**
+ * Whether a notification token key is a glob pattern, i.e. contains a `*`.
+ *
+ * @param key - The notification token key
+ * @returns True if the key is a pattern
+ */
+export const isNotificationPattern = (key: string) => key.includes("*");
+
+/**
+ * Matches a notification token key against a glob pattern whose segments are separated by dots.
+ * `*` matches any characters within a segment, `**` matches any characters across segments.
+ *
+ * @param pattern - The glob pattern, e.g. `order.*`
+ * @param key - The notification token key, e.g. `order.placed`
+ * @returns True if the key matches the pattern
+ */
+export const matchesNotificationPattern = (pattern: string, key: string) => {
+  let expression = patternExpressions.get(pattern);
+
+  if (!expression) {
+    expression = new RegExp(
+      "^" +
+        pattern
+          .split("**")
+          .map((part) =>
+            part
+              .split("*")
+              .map((text) => text.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+              .join("[^.]*")
+          )
+          .join(".*") +
+        "$"
+    );
+    patternExpressions.set(pattern, expression);
+  }
+
+  return expression.test(key);
+};
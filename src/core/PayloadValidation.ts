@@ -0,0 +1,36 @@
+import type {
+  ICommand,
+  INotification,
+  IQuery,
+  MessageTokenMetadata,
+} from "./IEventBus.js";
+import { ValidationError } from "./EventBusErrors.js";
+
+/**
+ * Runs the validator of the token of a message, if any, against its payload.
+ *
+ * @param message - The command, query or notification to validate
+ * @returns The message carrying the validated payload
+ * @throws ValidationError if the payload is invalid
+ */
+export const validatePayload = async <
+  M extends ICommand<any, any> | IQuery<any, any> | INotification<any>
+>(
+  message: M
+): Promise<M> => {
+  const validate = (
+    message.token.metadata as MessageTokenMetadata<any> | undefined
+  )?.validate;
+
+  if (!validate) {
+    return message;
+  }
+
+  const result = await validate(message.payload);
+
+  if (result.issues) {
+    throw new ValidationError(message.token.key, result.issues);
+  }
+
+  return { ...message, payload: result.value };
+};
@@ -0,0 +1,149 @@
+import type { DIToken } from "@fioc/core";
+import type { INotification } from "./IEventBus.js";
+import type { RecordedEvent } from "./IEventStore.js";
+import {
+  IProjection,
+  IProjectionRunner,
+  IProjectionSource,
+  ProjectionRunnerOptions,
+} from "./IProjection.js";
+import { createInMemoryCheckpointStore } from "./InMemoryCheckpointStore.js";
+import {
+  isNotificationPattern,
+  matchesNotificationPattern,
+} from "./NotificationPatterns.js";
+
+/**
+ * Creates a runner feeding a projection the events of its source after its checkpoint.
+ * Events whose token the projection does not handle are skipped, but still move its checkpoint.
+ *
+ * @param projection - The projection to run
+ * @param options - The source of the events and where to store the checkpoint
+ * @returns The projection runner
+ * @throws Error if the batch size is not an integer of at least 1
+ */
+export function createProjectionRunner<T extends INotification<any>>(
+  projection: IProjection<T>,
+  options: ProjectionRunnerOptions
+): IProjectionRunner {
+  const {
+    source,
+    checkpointStore = createInMemoryCheckpointStore(),
+    batchSize = 100,
+  } = options;
+
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(
+      `Batch size must be an integer of at least 1, got ${batchSize}`
+    );
+  }
+
+  const handledKeys = new Set(projection.handles.map((token) => token.key));
+  const patterns = [...handledKeys].filter(isNotificationPattern);
+
+  /**
+   * Whether the projection handles a token, directly, through the tokens it implements or a pattern.
+   *
+   * @param token - The token of the event
+   * @returns True if the projection handles the token
+   */
+  const isHandled = (token: DIToken<any>): boolean =>
+    handledKeys.has(token.key) ||
+    patterns.some((pattern) =>
+      matchesNotificationPattern(pattern, token.key)
+    ) ||
+    (token.metadata?.implements?.some(isHandled) ?? false);
+
+  let running: Promise<number> | undefined;
+
+  const catchUp = async () => {
+    let position = await checkpointStore.get(projection.name);
+    let read = 0;
+
+    for (;;) {
+      const batch = await source.readAll(position, batchSize);
+
+      for (const recorded of batch) {
+        if (isHandled(recorded.event.token)) {
+          await projection.handle(
+            recorded.event as T,
+            recorded as RecordedEvent<T>
+          );
+        }
+
+        position = recorded.position;
+        read++;
+        await checkpointStore.set(projection.name, position);
+      }
+
+      if (batch.length < batchSize) {
+        return read;
+      }
+    }
+  };
+
+  /**
+   * Tracks work as the run in progress, shared by the runs started until it settles.
+   *
+   * @param work - The work feeding the projection
+   * @returns The result of the work
+   */
+  const track = (work: () => Promise<number>) => {
+    const current = work().finally(() => {
+      if (running === current) {
+        running = undefined;
+      }
+    });
+
+    running = current;
+    return current;
+  };
+
+  const runner: IProjectionRunner = {
+    run: () => running ?? track(catchUp),
+    rebuild() {
+      const previous = running?.catch(() => undefined);
+
+      // Runs started during the reset share the rebuild instead of reading from the old checkpoint
+      return track(async () => {
+        await previous;
+        await projection.reset?.();
+        await checkpointStore.set(projection.name, 0);
+
+        return catchUp();
+      });
+    },
+    checkpoint: () => checkpointStore.get(projection.name),
+  };
+
+  return runner;
+}
+
+/**
+ * Creates a source of events from a recorded log of notifications,
+ * positioned in the order of the log, to replay it through projections.
+ *
+ * @param events - The recorded notifications
+ * @param streamId - Id of the stream the events are reported in
+ * @returns The source of the events
+ */
+export function createRecordedEventSource(
+  events: INotification<any>[],
+  streamId = "recorded"
+): IProjectionSource {
+  const recorded: RecordedEvent[] = events.map((event, index) => ({
+    streamId,
+    version: index + 1,
+    position: index + 1,
+    event,
+  }));
+
+  return {
+    async readAll(fromPosition = 0, limit) {
+      return recorded.slice(
+        fromPosition,
+        limit === undefined ? undefined : fromPosition + limit
+      );
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { RetryPolicy } from "./IEventBus.js";
+
+/**
+ * Computes how long to wait before retrying after a failed attempt.
+ *
+ * @param policy - The retry policy being applied
+ * @param attempt - The number of the attempt that failed, starting at 1
+ * @returns The delay before the next attempt in milliseconds
+ */
+export const getRetryDelay = (policy: RetryPolicy, attempt: number) => {
+  const exponentialDelay =
+    (policy.initialDelay ?? 0) * (policy.multiplier ?? 2) ** (attempt - 1);
+  const cappedDelay = Math.min(
+    exponentialDelay,
+    policy.maxDelay ?? Number.POSITIVE_INFINITY
+  );
+
+  return policy.jitter ? Math.random() * cappedDelay : cappedDelay;
+};
+
+/**
+ * Waits for the given amount of time, or until the signal is aborted.
+ *
+ * @param ms - Time to wait in milliseconds
+ * @param signal - Optional signal ending the wait early when aborted
+ * @returns A promise that resolves once the time has elapsed or the signal is aborted
+ */
+export const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
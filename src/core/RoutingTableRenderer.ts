@@ -0,0 +1,92 @@
+import type { MessageRoute, RoutingTable } from "./IRoutingTable.js";
+
+/**
+ * Label of the cluster grouping the nodes of a route.
+ */
+const getRouteLabel = (route: MessageRoute) => `${route.key} (${route.kind})`;
+
+/**
+ * Renders a routing table as JSON.
+ *
+ * @param table - The routing table to render
+ * @param indent - Number of spaces used for indentation
+ * @returns The JSON document
+ */
+export function renderRoutingTableAsJson(table: RoutingTable, indent = 2) {
+  return JSON.stringify(table, null, indent);
+}
+
+/**
+ * Renders a routing table as a Mermaid flowchart. Each message is a subgraph
+ * flowing through its middlewares to its handlers, numbered in execution order.
+ *
+ * @param table - The routing table to render
+ * @returns The Mermaid flowchart definition
+ */
+export function renderRoutingTableAsMermaid(table: RoutingTable) {
+  const escape = (label: string) => label.replace(/"/g, "#quot;");
+  const lines = ["flowchart LR"];
+
+  table.messages.forEach((route, routeIndex) => {
+    const id = `route_${routeIndex}`;
+    lines.push(`  subgraph ${id}["${escape(getRouteLabel(route))}"]`);
+    lines.push(`    ${id}_message(["${escape(route.key)}"])`);
+
+    let previous = `${id}_message`;
+    route.middlewares.forEach((middleware, index) => {
+      const node = `${id}_middleware_${index}`;
+      lines.push(`    ${node}["${escape(middleware)}"]`);
+      lines.push(`    ${previous} --> ${node}`);
+      previous = node;
+    });
+
+    route.handlers.forEach((handler, index) => {
+      const node = `${id}_handler_${index}`;
+      lines.push(`    ${node}[["${escape(handler)}"]]`);
+      lines.push(`    ${previous} -->|${index + 1}| ${node}`);
+    });
+
+    lines.push("  end");
+  });
+
+  return lines.join("\n");
+}
+
+/**
+ * Renders a routing table as a Graphviz DOT digraph. Each message is a cluster
+ * flowing through its middlewares to its handlers, numbered in execution order.
+ *
+ * @param table - The routing table to render
+ * @returns The DOT digraph definition
+ */
+export function renderRoutingTableAsDot(table: RoutingTable) {
+  const quote = (label: string) =>
+    `"${label.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  const lines = ["digraph EventBus {", "  rankdir=LR;"];
+
+  table.messages.forEach((route, routeIndex) => {
+    const id = `route_${routeIndex}`;
+    lines.push(`  subgraph cluster_${routeIndex} {`);
+    lines.push(`    label=${quote(getRouteLabel(route))};`);
+    lines.push(`    ${id}_message [label=${quote(route.key)}, shape=ellipse];`);
+
+    let previous = `${id}_message`;
+    route.middlewares.forEach((middleware, index) => {
+      const node = `${id}_middleware_${index}`;
+      lines.push(`    ${node} [label=${quote(middleware)}, shape=box];`);
+      lines.push(`    ${previous} -> ${node};`);
+      previous = node;
+    });
+
+    route.handlers.forEach((handler, index) => {
+      const node = `${id}_handler_${index}`;
+      lines.push(`    ${node} [label=${quote(handler)}, shape=component];`);
+      lines.push(`    ${previous} -> ${node} [label="${index + 1}"];`);
+    });
+
+    lines.push("  }");
+  });
+
+  lines.push("}");
+  return lines.join("\n");
+}
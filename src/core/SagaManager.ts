@@ -0,0 +1,317 @@
+import type {
+  HandlerContext,
+  INotification,
+  NotificationSubscriber,
+} from "./IEventBus.js";
+import {
+  ISagaManager,
+  SagaContext,
+  SagaDefinition,
+  SagaInstance,
+  SagaManagerOptions,
+  SagaStatus,
+  SagaStep,
+  SagaTimeout,
+} from "./ISaga.js";
+import { createInMemorySagaStore } from "./InMemorySagaStore.js";
+import { generateId } from "./Identifiers.js";
+
+// Longest delay of a timer: longer delays overflow and fire immediately
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Creates a manager running sagas on top of the event bus. Each step of a saga is subscribed to
+ * the notifications of its token, correlated with an instance by the key extracted from the
+ * notification. The notifications of an instance are handled one at a time.
+ *
+ * When a step throws, the compensating commands registered by the previous steps are invoked
+ * in reverse order, then the error is rethrown so that the publish reports the failed handler.
+ * A notification arriving while its instance is busy, such as one published by a command the
+ * running step invokes, is queued behind that work. Its publish does not wait for it, since
+ * waiting would deadlock the saga.
+ * Scheduled notifications are published through the event bus once their timeout elapses.
+ *
+ * @param options - The sagas, the event bus they run on and where to store their instances
+ * @returns The saga manager
+ */
+export function createSagaManager(options: SagaManagerOptions): ISagaManager {
+  const { eventBus, sagas, store = createInMemorySagaStore() } = options;
+
+  const unsubscribes: (() => void)[] = [];
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Work in progress per instance, chaining the handling of its notifications
+  const pending = new Map<string, Promise<unknown>>();
+  // Instances whose work is running right now
+  const busy = new Set<string>();
+
+  /**
+   * Runs work on an instance once the work already queued for it settled.
+   *
+   * @param sagaName - Name of the saga
+   * @param correlationKey - Correlation key of the instance
+   * @param execute - The work to run
+   * @returns The result of the work
+   */
+  const runExclusively = <R>(
+    sagaName: string,
+    correlationKey: string,
+    execute: () => Promise<R>
+  ) => {
+    const key = `${sagaName}:${correlationKey}`;
+    const result = (pending.get(key) ?? Promise.resolve()).then(async () => {
+      busy.add(key);
+      try {
+        return await execute();
+      } finally {
+        busy.delete(key);
+      }
+    });
+    const settled = result.catch(() => undefined);
+
+    pending.set(key, settled);
+    settled.then(() => {
+      if (pending.get(key) === settled) {
+        pending.delete(key);
+      }
+    });
+
+    return result;
+  };
+
+  /**
+   * Publishes the notification of a timeout once it is removed from its instance.
+   * Timeouts cancelled or ended with their instance in the meantime are ignored.
+   *
+   * @param instance - The instance that scheduled the timeout
+   * @param timeoutId - The id of the timeout
+   */
+  const fire = async (instance: SagaInstance, timeoutId: string) => {
+    timers.delete(timeoutId);
+
+    const timeout = await runExclusively(
+      instance.sagaName,
+      instance.correlationKey,
+      async () => {
+        const current = await store.find(
+          instance.sagaName,
+          instance.correlationKey
+        );
+        const timeout = current?.timeouts.find(({ id }) => id === timeoutId);
+
+        if (current && timeout) {
+          await store.save({
+            ...current,
+            timeouts: current.timeouts.filter(({ id }) => id !== timeoutId),
+          });
+        }
+
+        return timeout;
+      }
+    );
+
+    // Published once the instance is released, as the notification may be handled by the saga itself
+    if (timeout) {
+      await eventBus.publish(timeout.notification);
+    }
+  };
+
+  /**
+   * Arms the timer firing a timeout when it is due. Timers cannot wait longer than
+   * MAX_TIMER_DELAY, so timeouts due later are re-armed until they are due.
+   *
+   * @param instance - The instance that scheduled the timeout
+   * @param timeout - The timeout to arm
+   */
+  const arm = (instance: SagaInstance, timeout: SagaTimeout) => {
+    const remaining = timeout.dueAt.getTime() - Date.now();
+
+    timers.set(
+      timeout.id,
+      setTimeout(() => {
+        if (remaining > MAX_TIMER_DELAY) {
+          arm(instance, timeout);
+          return;
+        }
+
+        fire(instance, timeout.id).catch((error) =>
+          options.onTimeoutError?.(error, timeout)
+        );
+      }, Math.min(Math.max(0, remaining), MAX_TIMER_DELAY))
+    );
+  };
+
+  const disarm = (timeoutId: string) => {
+    clearTimeout(timers.get(timeoutId));
+    timers.delete(timeoutId);
+  };
+
+  /**
+   * Invokes the compensating commands of a failed instance in reverse order.
+   *
+   * @param instance - The failed instance
+   * @param handlerContext - The context of the notification that failed the instance
+   * @returns "compensated", or "failed" when a compensation failed too
+   */
+  const compensate = async (
+    instance: SagaInstance,
+    handlerContext: HandlerContext
+  ): Promise<SagaStatus> => {
+    try {
+      for (const command of [...instance.compensations].reverse()) {
+        await eventBus.invoke(command, { parent: handlerContext });
+      }
+
+      return "compensated";
+    } catch {
+      return "failed";
+    }
+  };
+
+  /**
+   * Creates the subscriber running a step of a saga.
+   *
+   * @param saga - The saga
+   * @param step - The step to run
+   * @returns The subscriber handling the notifications of the step
+   */
+  const createStepSubscriber =
+    (
+      saga: SagaDefinition,
+      step: SagaStep<any>
+    ): NotificationSubscriber<INotification<any>> =>
+    (notification, handlerContext) => {
+      const correlationKey = step.correlate(notification);
+      const queued = busy.has(`${saga.name}:${correlationKey}`);
+
+      const work = runExclusively(saga.name, correlationKey, async () => {
+        const stored = await store.find(saga.name, correlationKey);
+
+        if (
+          !stored &&
+          !saga.startedBy.some(({ key }) => key === notification.token.key)
+        ) {
+          return;
+        }
+
+        if (stored && stored.status !== "running") {
+          return;
+        }
+
+        const instance: SagaInstance = stored
+          ? {
+              ...stored,
+              compensations: [...stored.compensations],
+              timeouts: [...stored.timeouts],
+            }
+          : {
+              id: generateId(),
+              sagaName: saga.name,
+              correlationKey,
+              state: saga.initialState(correlationKey),
+              status: "running",
+              compensations: [],
+              timeouts: [],
+            };
+
+        const context: SagaContext<any> = {
+          instance,
+          state: instance.state,
+          handlerContext,
+          invoke: (request, dispatchOptions) =>
+            eventBus.invoke(request, {
+              parent: handlerContext,
+              ...dispatchOptions,
+            }),
+          compensateWith: (command) => {
+            instance.compensations.push(command);
+          },
+          schedule: (scheduled, delay) => {
+            const timeout = {
+              id: generateId(),
+              notification: scheduled,
+              dueAt: new Date(Date.now() + delay),
+            };
+            instance.timeouts.push(timeout);
+
+            return timeout.id;
+          },
+          cancelTimeout: (timeoutId) => {
+            instance.timeouts = instance.timeouts.filter(
+              ({ id }) => id !== timeoutId
+            );
+          },
+          complete: () => {
+            instance.status = "completed";
+          },
+        };
+
+        let failure: unknown;
+
+        try {
+          const next = await step.handle(notification, context);
+          instance.state = next === undefined ? context.state : next;
+        } catch (error) {
+          failure = error;
+          instance.error =
+            error instanceof Error ? error : new Error(String(error));
+          instance.status = await compensate(instance, handlerContext);
+        }
+
+        if (instance.status !== "running") {
+          instance.timeouts = [];
+        }
+
+        await store.save(instance);
+
+        stored?.timeouts
+          .filter(({ id }) => !instance.timeouts.some((kept) => kept.id === id))
+          .forEach(({ id }) => disarm(id));
+        instance.timeouts
+          .filter(({ id }) => !timers.has(id))
+          .forEach((timeout) => arm(instance, timeout));
+
+        if (failure !== undefined) {
+          throw failure;
+        }
+      });
+
+      if (queued) {
+        work.catch((error) => options.onStepError?.(error, notification));
+        return;
+      }
+
+      return work;
+    };
+
+  return {
+    async start() {
+      if (unsubscribes.length) {
+        return;
+      }
+
+      sagas.forEach((saga) =>
+        saga.steps.forEach((step) =>
+          unsubscribes.push(
+            eventBus.subscribe(step.token, createStepSubscriber(saga, step))
+          )
+        )
+      );
+
+      for (const saga of sagas) {
+        const instances = await store.list(saga.name);
+
+        instances
+          .filter(({ status }) => status === "running")
+          .forEach((instance) =>
+            instance.timeouts
+              .filter(({ id }) => !timers.has(id))
+              .forEach((timeout) => arm(instance, timeout))
+          );
+      }
+    },
+    stop() {
+      unsubscribes.splice(0).forEach((unsubscribe) => unsubscribe());
+      [...timers.keys()].forEach(disarm);
+    },
+  };
+}
@@ -0,0 +1,140 @@
+import { withDependencies } from "@fioc/core";
+import {
+  HandlerContext,
+  ICommandToken,
+  IHandlerMiddleware,
+  INotificationToken,
+  IQueryToken,
+} from "./IEventBus.js";
+import { ISpan, ITracer, ITracerToken } from "./ITracer.js";
+import { createMiddlewareDIToken } from "./EventBus.js";
+
+/**
+ * Creates a middleware tracing every dispatch it applies to.
+ * Starts a span per invoke or publish, named `invoke <token key>` or `publish <token key>`,
+ * and a child span per notification handler, named `handle <handler key>`.
+ * Spans of nested dispatches are children of the span of the message that caused them.
+ *
+ * Spans carry the following attributes:
+ * - `messaging.message.key`: key of the token of the message
+ * - `messaging.message.id` and `messaging.correlation_id`: identifiers of the dispatch
+ * - `messaging.strategy`: strategy of the publish
+ * - `messaging.handler.key`: key of the token of the notification handler
+ * - `messaging.outcome`: `success` or `error`
+ *
+ * @param tracer - The tracer creating the spans
+ * @returns The tracing middleware
+ */
+export function createTracingMiddleware(
+  tracer: ITracer
+): IHandlerMiddleware<any, any> {
+  // Spans of the dispatches in progress, shared with the hooks of their handlers
+  const dispatchSpans = new WeakMap<HandlerContext, ISpan>();
+  // Spans of the dispatches in progress per message, parents of the dispatches they cause
+  const activeSpans = new Map<string, ISpan[]>();
+
+  /**
+   * Runs `execute` inside `span`, recording its outcome and ending the span afterwards.
+   */
+  const trace = async <R>(
+    span: ISpan,
+    execute: () => Promise<R>,
+    isFailure: (result: R) => boolean = () => false
+  ) => {
+    try {
+      const result = await execute();
+      const failed = isFailure(result);
+
+      span.setAttribute("messaging.outcome", failed ? "error" : "success");
+      span.setStatus(failed ? "error" : "ok");
+      return result;
+    } catch (error) {
+      span.setAttribute("messaging.outcome", "error");
+      span.recordException(
+        error instanceof Error ? error : new Error(String(error))
+      );
+      span.setStatus("error");
+      throw error;
+    } finally {
+      span.end();
+    }
+  };
+
+  return {
+    async handle(req, next, context: HandlerContext) {
+      const operation = context.strategy ? "publish" : "invoke";
+      const parentSpans = context.causationId
+        ? activeSpans.get(context.causationId)
+        : undefined;
+      const span = tracer.startSpan(`${operation} ${req.token.key}`, {
+        parent: parentSpans?.[parentSpans.length - 1],
+        attributes: {
+          "messaging.operation": operation,
+          "messaging.message.key": req.token.key,
+          "messaging.message.id": context.messageId,
+          "messaging.correlation_id": context.correlationId,
+          ...(context.strategy && { "messaging.strategy": context.strategy }),
+        },
+      });
+
+      dispatchSpans.set(context, span);
+      activeSpans.set(context.messageId, [
+        ...(activeSpans.get(context.messageId) ?? []),
+        span,
+      ]);
+
+      try {
+        return await trace(
+          span,
+          () => next(req),
+          // Best effort publishes report failed handlers in their result instead of throwing
+          (result: any) => !!result?.errors?.length
+        );
+      } finally {
+        // Concurrent dispatches of the same message keep their own span
+        const spans = activeSpans
+          .get(context.messageId)!
+          .filter((active) => active !== span);
+
+        if (spans.length) {
+          activeSpans.set(context.messageId, spans);
+        } else {
+          activeSpans.delete(context.messageId);
+        }
+      }
+    },
+    async handleNotificationHandler(notification, handler, next, context) {
+      const span = tracer.startSpan(`handle ${handler.key}`, {
+        parent: dispatchSpans.get(context),
+        attributes: {
+          "messaging.operation": "handle",
+          "messaging.message.key": notification.token.key,
+          "messaging.message.id": context.messageId,
+          "messaging.correlation_id": context.correlationId,
+          "messaging.handler.key": handler.key,
+          ...(context.strategy && { "messaging.strategy": context.strategy }),
+        },
+      });
+
+      await trace(span, () => next(notification));
+    },
+  };
+}
+
+/**
+ * Token for the tracing middleware. Applies to commands, queries and notifications;
+ * add it to the middleware order to enable tracing.
+ */
+export const TracingMiddlewareToken = createMiddlewareDIToken<any, any>().as(
+  "TracingMiddleware",
+  {
+    generics: [ICommandToken, IQueryToken, INotificationToken],
+  }
+);
+
+/**
+ * Factory for the tracing middleware, resolving the tracer from the `ITracerToken`.
+ */
+export const TracingMiddlewareFactory = withDependencies(
+  ITracerToken
+).defineFactory(createTracingMiddleware);
@@ -1,2 +1,28 @@
 export * from "./core/EventBus";
 export * from "./core/IEventBus";
+export * from "./core/EventBusErrors";
+export * from "./core/IRoutingTable";
+export * from "./core/RoutingTableRenderer";
+export * from "./core/IDeadLetterStore";
+export * from "./core/InMemoryDeadLetterStore";
+export * from "./core/IOutboxStore";
+export * from "./core/InMemoryOutboxStore";
+export * from "./core/ITracer";
+export * from "./core/InMemoryTracer";
+export * from "./core/TracingMiddleware";
+export * from "./core/IEventTransport";
+export * from "./core/InMemoryTransport";
+export * from "./core/MessagePortTransport";
+export * from "./core/IMessageCodec";
+export * from "./core/MessageCodec";
+export * from "./core/Clock";
+export * from "./core/IEventStore";
+export * from "./core/InMemoryEventStore";
+export * from "./core/IAggregateRepository";
+export * from "./core/AggregateRepository";
+export * from "./core/IProjection";
+export * from "./core/InMemoryCheckpointStore";
+export * from "./core/ProjectionRunner";
+export * from "./core/ISaga";
+export * from "./core/InMemorySagaStore";
+export * from "./core/SagaManager";